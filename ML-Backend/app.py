@@ -2,6 +2,9 @@
 from flask import Flask, request, jsonify
 from flask_cors import CORS
 import joblib
+import json
+import math
+import os
 import pandas as pd
 import random
 
@@ -20,18 +23,42 @@ except FileNotFoundError:
     print("Warning: Model files not found. Using dummy predictions instead.")
     print("This is expected if you're testing with simulated data.")
 
-# --- NEW: Add coordinates for all your locations ---
-location_coords = {
-    'nsit': (28.61, 77.04),
-    'ito': (28.631, 77.248),
-    'punjabi': (28.66, 77.12),
-    'isbt': (28.667, 77.231),
-    'mandir_marg': (28.628, 77.203),
-    'civil_lines': (28.678, 77.222),
-    'CPCBHQ': (28.59, 77.25),
-    'Dilshad': (28.68, 77.31),
-    'centralschool': (28.53, 77.25),
-}
+# --- Station registry shared with the dashboard ---
+STATIONS_FILE = os.environ.get(
+    'STATIONS_FILE',
+    os.path.join(os.path.dirname(os.path.abspath(__file__)), '..', 'dashboard', 'src', 'data', 'stations.json'),
+)
+with open(STATIONS_FILE, encoding='utf-8') as f:
+    STATIONS = {station['id']: station for station in json.load(f)['stations']}
+
+# --- Regulatory limit profiles shared with the dashboard ---
+LIMIT_PROFILES_FILE = os.environ.get(
+    'LIMIT_PROFILES_FILE',
+    os.path.join(os.path.dirname(os.path.abspath(__file__)), '..', 'dashboard', 'src', 'data', 'limitProfiles.json'),
+)
+with open(LIMIT_PROFILES_FILE, encoding='utf-8') as f:
+    _limit_profiles = json.load(f)
+LIMIT_PROFILES = {profile['id']: profile for profile in _limit_profiles['profiles']}
+DEFAULT_LIMIT_PROFILE = LIMIT_PROFILES[_limit_profiles['defaultProfile']]
+
+# --- Historical baseline used to score prediction confidence ---
+TABLES_DIR = os.environ.get(
+    'TABLES_DIR',
+    os.path.join(os.path.dirname(os.path.abspath(__file__)), '..', 'dashboard', 'public', 'data', 'Tables'),
+)
+STATION_MEANS = {}
+HOURLY_OFFSETS = {}
+try:
+    rankings = pd.read_csv(os.path.join(TABLES_DIR, '01_station_rankings.csv'))
+    STATION_MEANS = dict(zip(rankings['Location'], rankings['Average_LAeq_dBA']))
+    hourly = pd.read_csv(os.path.join(TABLES_DIR, '03_hourly_statistics.csv'))
+    day_mean = hourly['Average_LAeq_dBA'].mean()
+    HOURLY_OFFSETS = dict(zip(hourly['Hour'], hourly['Average_LAeq_dBA'] - day_mean))
+except FileNotFoundError:
+    print("Warning: Historical tables not found. Confidence will use station base noise.")
+
+# Deviation (dB) from the historical expectation at which confidence has dropped by ~40%
+CONFIDENCE_SCALE_DB = 8.0
 
 # --- Endpoint for SINGLE prediction (using DUMMY predictions) ---
 @app.route('/predict', methods=['POST'])
@@ -45,6 +72,7 @@ def predict():
     hour = data.get('hour', 15)
     day_of_week = data.get('day_of_week', 1)
     noise_lag = data.get('noise_lag_1hr', 68.5)
+    seed = data.get('seed', 0)
     
     # Try to identify location from input data
     location_name = data.get('location', 'nsit')
@@ -60,7 +88,8 @@ def predict():
         hour=hour,
         day_of_week=day_of_week,
         noise_lag=noise_lag,
-        location_name=location_name
+        location_name=location_name,
+        seed=seed
     )
     
     return jsonify({'prediction': prediction})
@@ -81,86 +110,88 @@ def predict_map():
     hour = data.get('hour', 15)  # Default: 3 PM
     day_of_week = data.get('day_of_week', 1)  # Default: Tuesday
     noise_lag = data.get('noise_lag_1hr', 68.5)  # Default previous noise level
+    seed = data.get('seed', 0)  # Same seed + parameters => same map
+    # Optional per-station previous-hour levels, used when chaining hourly forecasts
+    noise_lag_by_station = data.get('noise_lag_by_station') or {}
+    try:
+        limit_profile = resolve_limit_profile(data.get('limit_profile'))
+    except ValueError as err:
+        return jsonify({'error': str(err)}), 400
     
     map_predictions = []
     
     # Generate predictions for each known location
-    for location_name, (lat, lon) in location_coords.items():
+    for location_name, station in STATIONS.items():
         # Use dummy prediction function
         predicted_noise = generate_dummy_prediction(
             hour=hour,
             day_of_week=day_of_week,
-            noise_lag=noise_lag,
-            location_name=location_name
+            noise_lag=noise_lag_by_station.get(location_name, noise_lag),
+            location_name=location_name,
+            seed=seed
         )
         
-        # Determine zone type based on location
-        zone_type = get_zone_type(location_name)
-        
         # Calculate violation status
-        limit = get_noise_limit(zone_type, hour)
+        limit = get_noise_limit(location_name, hour, limit_profile)
         is_violation = predicted_noise > limit
         
         # Append the result to our list
         map_predictions.append({
             'location': location_name,
-            'latitude': lat,
-            'longitude': lon,
+            'latitude': station['latitude'],
+            'longitude': station['longitude'],
             'predicted_noise': predicted_noise,
-            'zone_type': zone_type,
+            'zone_type': station['zoneType'],
             'noise_limit': limit,
             'is_violation': is_violation,
-            'confidence': round(random.uniform(0.75, 0.95), 2)  # Dummy confidence score
+            'confidence': get_confidence(predicted_noise, location_name, hour)
         })
     
     return jsonify(map_predictions)
 
-# 1. Define the inherent "base" noise level for each location.
-# These values are crucial for making the map look realistic.
-# (Adjust these based on your project's findings)
-LOCATION_BASE_NOISE = {
-    'ito': 76.0,
-    'isbt': 75.0,
-    'punjabi': 72.0,
-    'civil_lines': 70.0,
-    'mandir_marg': 68.0,
-    'CPCBHQ': 66.0,
-    'nsit': 65.0,
-    'Dilshad': 64.0,
-    'centralschool': 62.0,
-}
-
-# Zone type mapping for each location
-LOCATION_ZONE_TYPES = {
-    'ito': 'Commercial',
-    'isbt': 'Commercial',
-    'punjabi': 'Residential',
-    'civil_lines': 'Residential',
-    'mandir_marg': 'Commercial',
-    'CPCBHQ': 'Commercial',
-    'nsit': 'Silence Zone',
-    'Dilshad': 'Residential',
-    'centralschool': 'Silence Zone',
-}
-
-# Noise limits based on zone type and time (dBA)
-NOISE_LIMITS = {
-    'Industrial': {'day': 75, 'night': 70},
-    'Commercial': {'day': 65, 'night': 55},
-    'Residential': {'day': 55, 'night': 45},
-    'Silence Zone': {'day': 50, 'night': 40},
-}
-
-def get_zone_type(location_name: str) -> str:
-    """Get the zone type for a given location."""
-    return LOCATION_ZONE_TYPES.get(location_name, 'Residential')
-
-def get_noise_limit(zone_type: str, hour: int) -> float:
-    """Get the noise limit based on zone type and time of day."""
-    time_period = 'night' if (22 <= hour or hour < 6) else 'day'
-    return NOISE_LIMITS.get(zone_type, NOISE_LIMITS['Residential'])[time_period]
-
-def generate_dummy_prediction(hour: int, day_of_week: int, noise_lag: float, location_name: str) -> float:
+def resolve_limit_profile(value) -> dict:
+    """
+    The limit profile a request asks for: a built-in profile id, a whole
+    custom profile as sent by the dashboard, or the default when missing.
+    """
+    if value is None:
+        return DEFAULT_LIMIT_PROFILE
+    if isinstance(value, str):
+        if value not in LIMIT_PROFILES:
+            raise ValueError(f'Unknown limit profile "{value}"')
+        return LIMIT_PROFILES[value]
+    if isinstance(value, dict):
+        zones = value.get('zones')
+        day_start, night_start = value.get('dayStartHour'), value.get('nightStartHour')
+        if (not isinstance(zones, dict)
+                or not all(isinstance(zones.get(zone), dict) for zone in DEFAULT_LIMIT_PROFILE['zones'])
+                or not isinstance(day_start, int) or not isinstance(night_start, int)
+                or not 0 <= day_start < night_start <= 23):
+            raise ValueError('Custom limit profile needs zones and dayStartHour < nightStartHour')
+        return value
+    raise ValueError('limit_profile must be a profile id or a profile object')
+
+def get_noise_limit(location_name: str, hour: int, profile: dict = DEFAULT_LIMIT_PROFILE) -> float:
+    """
+    Get the station's limit for the time of day under a limit profile.
+    Predictions carry no date, so the profile's exemptions don't apply.
+    """
+    is_night = hour < profile['dayStartHour'] or hour >= profile['nightStartHour']
+    station = STATIONS.get(location_name)
+    zone_type = station['zoneType'] if station else 'Residential'  # Residential default
+    return profile['zones'][zone_type]['night' if is_night else 'day']
+
+def get_confidence(predicted_noise: float, location_name: str, hour: int) -> float:
+    """
+    Confidence in [0.5, 0.95], falling off as the prediction moves away from
+    the station's historical mean shifted by the hourly profile.
+    """
+    station = STATIONS.get(location_name, {})
+    expected = STATION_MEANS.get(location_name, station.get('baseNoise', 65.0)) + HOURLY_OFFSETS.get(hour, 0.0)
+    z = (predicted_noise - expected) / CONFIDENCE_SCALE_DB
+    return round(0.5 + 0.45 * math.exp(-0.5 * z * z), 2)
+
+def generate_dummy_prediction(hour: int, day_of_week: int, noise_lag: float, location_name: str, seed: int = 0) -> float:
     """
     Generates a realistic but fake noise prediction based on inputs.
     
@@ -169,9 +200,10 @@ def generate_dummy_prediction(hour: int, day_of_week: int, noise_lag: float, loc
         day_of_week (int): Day of the week (0=Monday, 6=Sunday).
         noise_lag (float): The noise level from the previous hour.
         location_name (str): The name of the monitoring station.
+        seed (int): Seed for the random jitter; the same inputs and seed give the same result.
     """
     # Get the base noise for the given location, default to 65 if not found
-    base_noise = LOCATION_BASE_NOISE.get(location_name, 65.0)
+    base_noise = STATIONS[location_name]['baseNoise'] if location_name in STATIONS else 65.0
 
     # 2. Add a time-of-day factor
     time_factor = 0.0
@@ -194,8 +226,9 @@ def generate_dummy_prediction(hour: int, day_of_week: int, noise_lag: float, loc
     # This weighted average makes the prediction anchored to the recent past.
     predicted_noise = (0.6 * noise_lag) + (0.4 * environmental_noise)
 
-    # 6. Add a small amount of random noise to make it look less robotic
-    final_prediction = predicted_noise + random.uniform(-1.5, 1.5)
+    # 6. Add a small amount of seeded random noise to make it look less robotic
+    rng = random.Random(f"{seed}|{location_name}|{hour}|{day_of_week}|{noise_lag}")
+    final_prediction = predicted_noise + rng.uniform(-1.5, 1.5)
 
     return round(final_prediction, 2)
 
@@ -0,0 +1,56 @@
+/**
+ * Service worker that caches map tiles
+ *
+ * Tile requests are served cache-first, so tiles that were viewed once keep
+ * working offline. Every other request goes straight to the network.
+ */
+
+const CACHE_NAME = 'noise-map-tiles-v1';
+// Oldest tiles are evicted beyond this many entries
+const MAX_TILES = 2000;
+// Matches XYZ tile paths such as /12/2925/1707.png or /12/2925/1707@2x.png
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith('noise-map-tiles-') && key !== CACHE_NAME).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function trimCache(cache) {
+  const keys = await cache.keys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - MAX_TILES))) {
+    await cache.delete(key);
+  }
+}
+
+async function cachedTile(event) {
+  const { request } = event;
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Tiles are requested with CORS, so error responses are visible and never cached.
+  // Caching runs after the tile is returned; a full cache only skips storing it
+  if (response.ok) {
+    event.waitUntil(
+      cache.put(request, response.clone())
+        .then(() => trimCache(cache))
+        .catch(() => undefined)
+    );
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || !TILE_PATH.test(new URL(request.url).pathname)) return;
+  event.respondWith(cachedTile(event));
+});
@@ -1,31 +1,170 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Header } from './components/Header';
 import { KeyMetrics } from './components/KeyMetrics';
+import { AISummary } from './components/AISummary';
 import { ChartCard } from './components/ChartCard';
 import { DataTable } from './components/DataTable';
+import { PolicyModal } from './components/PolicyModal';
+import { StationDetailPanel } from './components/StationDetailPanel';
+import { HourlyProfileChart } from './components/charts/HourlyProfileChart';
+import { StationComparisonChart } from './components/charts/StationComparisonChart';
+import { ExceedanceChart } from './components/charts/ExceedanceChart';
+import { SeverityChart } from './components/charts/SeverityChart';
+import { StationFilter } from './components/charts/StationFilter';
+import { ExceedanceChoropleth } from './components/map/ExceedanceChoropleth';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './components/ui/card';
+import { Button } from './components/ui/button';
+import { RawDataLoader } from './components/RawDataLoader';
+import { FilterBar } from './components/FilterBar';
+import { LimitProfileSelector } from './components/LimitProfileSelector';
+import { DataQualityReport } from './components/DataQualityReport';
 import PredictiveMapDashboard from './components/PredictiveMapDashboard';
 import 'leaflet/dist/leaflet.css';
+import { fetchCSV, calculateKeyMetrics } from './lib/dataUtils';
 import {
-  fetchCSV,
-  calculateKeyMetrics,
-  type StationRanking,
-  type ExceedanceSummary,
-  type ViolationSeverity,
-} from './lib/dataUtils';
+  EXCEEDANCE_SUMMARY_SCHEMA,
+  formatRowError,
+  HOURLY_STATISTICS_SCHEMA,
+  STATION_RANKINGS_SCHEMA,
+  VIOLATION_SEVERITY_SCHEMA,
+} from './lib/tableSchemas';
+import { checkStationConsistency, type StationMismatch } from './lib/stations';
+import { buildStationProfile, toPolicyLocation, type PolicyLocation } from './lib/stationProfile';
+import { DEFAULT_LLM_PROVIDER_ID, LLM_PROVIDERS } from './lib/llmProviders';
+import type { AnalysisTables, ClaimReference, TableKey } from './lib/groundedSummary';
+import type { Tab, TableSort } from './lib/viewState';
+import { useViewState } from './lib/useViewState';
+import type { FileIssue } from './lib/readingsIngest';
+import { useRawReadings } from './lib/useRawReadings';
+import { checkPublishedTables, type QualityMode } from './lib/dataQuality';
+import { describeReadingFilter, filterPublishedTables, type ReadingFilter } from './lib/readingFilter';
+import { EMPTY_ACOUSTICS } from './lib/acoustics';
+import type { LimitProfile } from './lib/limitProfiles';
+
+// How long a row cited by the AI summary stays highlighted
+const CITATION_HIGHLIGHT_MS = 4000;
+
+const EMPTY_TABLES: AnalysisTables = { rankings: [], exceedance: [], severity: [], hourly: [] };
+
+const LOADING_METRICS = {
+  loudestStation: 'Loading...',
+  highestAvgNoise: 0,
+  avgViolationRate: 0,
+};
 
 function App() {
-  const [stationRankings, setStationRankings] = useState<StationRanking[]>([]);
-  const [exceedanceSummary, setExceedanceSummary] = useState<ExceedanceSummary[]>([]);
-  const [violationSeverity, setViolationSeverity] = useState<ViolationSeverity[]>([]);
-  const [activeTab, setActiveTab] = useState<'analysis' | 'prediction'>('analysis');
+  const [publishedTables, setPublishedTables] = useState<AnalysisTables>(EMPTY_TABLES);
+  const [publishedErrors, setPublishedErrors] = useState<FileIssue[]>([]);
+  const [tablesLoaded, setTablesLoaded] = useState<boolean>(false);
+  const [citedRow, setCitedRow] = useState<ClaimReference | null>(null);
+
+  // Tab, open dialogs, display options and the filter live in the URL
+  const [view, updateView] = useViewState();
+  const { tab: activeTab, hourlyView, filter, qualityMode, limits } = view;
+
+  // Tables recomputed from raw readings, when loaded, replace the published ones
+  const aggregationSettings = useMemo(() => ({ filter, quality: qualityMode, limits }), [filter, qualityMode, limits]);
+  const rawReadings = useRawReadings(aggregationSettings);
+  const rawResult = rawReadings.result;
+  const filteredTables = useMemo(
+    () => rawResult ? rawResult.tables : filterPublishedTables(publishedTables, filter, limits),
+    [rawResult, publishedTables, filter, limits]
+  );
+  const {
+    rankings: stationRankings,
+    exceedance: exceedanceSummary,
+    severity: violationSeverity,
+    hourly: hourlyStatistics,
+  } = filteredTables;
+  // The prediction baseline ignores the filter
+  const unfilteredTables = rawResult ? rawResult.unfilteredTables : publishedTables;
+  // Energetic and percentile levels need the readings, so only raw data has them
+  const acoustics = rawResult ? rawResult.acoustics : EMPTY_ACOUSTICS;
+  const dataErrors = rawResult ? rawResult.issues : publishedErrors;
+
+  // Tables from raw readings follow the limit profile, so only the published ones are checked
+  const stationMismatches = useMemo<StationMismatch[]>(
+    () => checkStationConsistency(publishedTables),
+    [publishedTables]
+  );
+  useEffect(() => {
+    stationMismatches.forEach(m => console.warn(`Station registry: ${m.message}`));
+  }, [stationMismatches]);
+
+  const publishedQualityIssues = useMemo(() => checkPublishedTables(publishedTables), [publishedTables]);
+
+  const keyMetrics = useMemo(
+    () => tablesLoaded ? calculateKeyMetrics(stationRankings, exceedanceSummary) : LOADING_METRICS,
+    [tablesLoaded, stationRankings, exceedanceSummary]
+  );
+  const selectedStationId = view.station ?? null;
+  const aiProviderId = LLM_PROVIDERS.some(p => p.id === view.aiProvider) ? view.aiProvider! : DEFAULT_LLM_PROVIDER_ID;
+
+  const setActiveTab = (tab: Tab) => updateView({ tab }, { push: true });
+  const setSelectedStationId = (station: string | null) => updateView({ station: station ?? undefined }, { push: true });
+  const setHourlyView = (hourlyView: 'chart' | 'table') => updateView({ hourlyView });
+  const setFilter = (filter: ReadingFilter) => updateView({ filter });
+  const setQualityMode = (qualityMode: QualityMode) => updateView({ qualityMode });
+  const setLimits = (limits: LimitProfile) => updateView({ limits });
+  const setAiProviderId = (id: string) => updateView({ aiProvider: id === DEFAULT_LLM_PROVIDER_ID ? undefined : id });
+  const sortProps = (table: TableKey) => ({
+    sort: view.sorts[table],
+    onSortChange: (sort: TableSort) => updateView({ sorts: { ...view.sorts, [table]: sort } }),
+  });
 
   // Get the base URL for assets
   const basePath = import.meta.env.BASE_URL || '/';
-  const [keyMetrics, setKeyMetrics] = useState({
-    loudestStation: 'Loading...',
-    highestAvgNoise: 0,
-    avgViolationRate: 0,
-  });
+
+  const selectedProfile = useMemo(
+    () => selectedStationId
+      ? buildStationProfile(selectedStationId, {
+          rankings: stationRankings,
+          exceedance: exceedanceSummary,
+          severity: violationSeverity,
+          acoustics: acoustics.stations,
+        })
+      : null,
+    [selectedStationId, stationRankings, exceedanceSummary, violationSeverity, acoustics]
+  );
+
+  const policyLocation = useMemo<PolicyLocation | null>(() => {
+    if (!view.policy) return null;
+    const profile = buildStationProfile(view.policy, {
+      rankings: stationRankings,
+      exceedance: exceedanceSummary,
+      severity: violationSeverity,
+    });
+    return toPolicyLocation(profile);
+  }, [view.policy, stationRankings, exceedanceSummary, violationSeverity]);
+
+  const analysisTables = useMemo<AnalysisTables>(
+    () => ({
+      rankings: stationRankings,
+      exceedance: exceedanceSummary,
+      severity: violationSeverity,
+      hourly: hourlyStatistics,
+    }),
+    [stationRankings, exceedanceSummary, violationSeverity, hourlyStatistics]
+  );
+
+  // Show the row a summary claim cites; the hourly table is hidden behind the chart by default
+  const showCitedRow = (reference: ClaimReference) => {
+    if (reference.table === 'hourly') setHourlyView('table');
+    setCitedRow({ ...reference });
+  };
+
+  const highlightedRow = (table: TableKey) => (citedRow?.table === table ? citedRow.row : undefined);
+
+  useEffect(() => {
+    if (!citedRow) return;
+    const timer = setTimeout(() => setCitedRow(null), CITATION_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [citedRow]);
+
+  // Swap the detail panel for the policy modal so only one dialog is open at a time
+  const openPolicySuggestions = (stationId: string) => {
+    updateView({ station: undefined, policy: stationId }, { push: true });
+  };
 
   useEffect(() => {
     loadData();
@@ -33,26 +172,35 @@ function App() {
 
   const loadData = async () => {
     try {
-      const [rankings, exceedance, severity] = await Promise.all([
-        fetchCSV<StationRanking>('01_station_rankings.csv'),
-        fetchCSV<ExceedanceSummary>('02_exceedance_summary.csv'),
-        fetchCSV<ViolationSeverity>('04_violation_severity.csv'),
+      const [rankings, exceedance, hourly, severity] = await Promise.all([
+        fetchCSV(STATION_RANKINGS_SCHEMA),
+        fetchCSV(EXCEEDANCE_SUMMARY_SCHEMA),
+        fetchCSV(HOURLY_STATISTICS_SCHEMA),
+        fetchCSV(VIOLATION_SEVERITY_SCHEMA),
       ]);
 
-      setStationRankings(rankings);
-      setExceedanceSummary(exceedance);
-      setViolationSeverity(severity);
-
-      const metrics = calculateKeyMetrics(rankings, exceedance);
-      setKeyMetrics(metrics);
+      setPublishedTables({
+        rankings: rankings.rows,
+        exceedance: exceedance.rows,
+        hourly: hourly.rows,
+        severity: severity.rows,
+      });
+      setPublishedErrors([
+        ...rankings.errors.map(error => ({ filename: STATION_RANKINGS_SCHEMA.filename, error })),
+        ...exceedance.errors.map(error => ({ filename: EXCEEDANCE_SUMMARY_SCHEMA.filename, error })),
+        ...hourly.errors.map(error => ({ filename: HOURLY_STATISTICS_SCHEMA.filename, error })),
+        ...severity.errors.map(error => ({ filename: VIOLATION_SEVERITY_SCHEMA.filename, error })),
+      ]);
     } catch (error) {
       console.error('Error loading data:', error);
+    } finally {
+      setTablesLoaded(true);
     }
   };
 
   return (
     <div className="min-h-screen bg-slate-50">
-      <Header />
+      <Header activeFilter={describeReadingFilter(filter, limits)} />
       
       {/* Tab Navigation */}
       <div className="bg-white border-b border-slate-200">
@@ -85,9 +233,85 @@ function App() {
       {/* Tab Content */}
       {activeTab === 'analysis' ? (
         <main className="container mx-auto px-6 py-8">
+          {/* Recompute the tables from raw readings */}
+          <RawDataLoader
+            active={rawResult}
+            progress={rawReadings.progress}
+            error={rawReadings.error}
+            onLoad={rawReadings.load}
+            onReset={rawReadings.reset}
+          />
+
+          {/* Sensor data quality */}
+          <DataQualityReport
+            rawResult={rawResult}
+            publishedIssues={publishedQualityIssues}
+            mode={qualityMode}
+            onModeChange={setQualityMode}
+          />
+
+          {/* Filter for every table, chart and key metric below */}
+          <FilterBar
+            filter={filter}
+            onChange={setFilter}
+            limits={limits}
+            rawReadings={rawResult !== null}
+            firstReading={rawResult?.summary.firstReading}
+            lastReading={rawResult?.summary.lastReading}
+          />
+
+          {/* Limits that exceedance, severity and the hourly chart are judged against */}
+          <LimitProfileSelector
+            limits={limits}
+            onChange={setLimits}
+            note={rawResult
+              ? undefined
+              : "The published tables were computed against CPCB 2000 and can't be re-judged without readings; load raw readings to recompute exceedance and severity against this profile."}
+          />
+
+          {/* Data validation issues */}
+          {dataErrors.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-900 p-4 rounded-md mb-6">
+              <p className="font-semibold">
+                {dataErrors.length} data issue{dataErrors.length === 1 ? '' : 's'} found while loading {rawResult ? 'readings' : 'tables'}
+              </p>
+              <ul className="text-sm mt-2 space-y-1 max-h-32 overflow-auto">
+                {dataErrors.map(({ filename, error }, idx) => (
+                  <li key={idx}>
+                    <span className="font-medium">{filename}</span> – {formatRowError(error)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Station registry consistency */}
+          {stationMismatches.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-900 p-4 rounded-md mb-6">
+              <p className="font-semibold">
+                {stationMismatches.length} station registry mismatch{stationMismatches.length === 1 ? '' : 'es'}
+              </p>
+              <ul className="text-sm mt-2 space-y-1 max-h-32 overflow-auto">
+                {stationMismatches.map((mismatch, idx) => (
+                  <li key={idx}>{mismatch.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Key Metrics Bar */}
           <KeyMetrics {...keyMetrics} />
 
+          {/* AI Summary, once the tables it summarises are available */}
+          {tablesLoaded && stationRankings.length > 0 && exceedanceSummary.length > 0 && (
+            <AISummary
+              tables={analysisTables}
+              providerId={aiProviderId}
+              onProviderChange={setAiProviderId}
+              onReferenceClick={showCitedRow}
+            />
+          )}
+
           {/* Main Dashboard Grid */}
           <div className="space-y-8">
             {/* Data Tables Section */}
@@ -98,11 +322,18 @@ function App() {
                   title="Station Rankings (Loudest First)"
                   data={stationRankings}
                   type="rankings"
+                  acoustics={acoustics.stations}
+                  onStationSelect={setSelectedStationId}
+                  highlightedRow={highlightedRow('rankings')}
+                  {...sortProps('rankings')}
                 />
                 <DataTable
                   title="Exceedance Summary"
                   data={exceedanceSummary}
                   type="exceedance"
+                  onStationSelect={setSelectedStationId}
+                  highlightedRow={highlightedRow('exceedance')}
+                  {...sortProps('exceedance')}
                 />
               </div>
               <div className="mt-6">
@@ -110,28 +341,97 @@ function App() {
                   title="Violation Severity Analysis"
                   data={violationSeverity}
                   type="severity"
+                  onStationSelect={setSelectedStationId}
+                  highlightedRow={highlightedRow('severity')}
+                  {...sortProps('severity')}
                 />
               </div>
             </section>
 
+            {/* Hourly Profile Section */}
+            <section>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold text-slate-900">Hourly Noise Profile</h2>
+                <div className="flex gap-2">
+                  <Button
+                    variant={hourlyView === 'chart' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setHourlyView('chart')}
+                  >
+                    Chart
+                  </Button>
+                  <Button
+                    variant={hourlyView === 'table' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setHourlyView('table')}
+                  >
+                    Table
+                  </Button>
+                </div>
+              </div>
+              {hourlyView === 'chart' ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Average Noise by Hour of Day</CardTitle>
+                    <CardDescription>
+                      Mean and median LAeq across all stations, with the observed min–max range and day/night limits
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <HourlyProfileChart data={hourlyStatistics} limits={limits} />
+                  </CardContent>
+                </Card>
+              ) : (
+                <DataTable
+                  title="Hourly Statistics"
+                  data={hourlyStatistics}
+                  type="hourly"
+                  acoustics={acoustics.hourly}
+                  highlightedRow={highlightedRow('hourly')}
+                  {...sortProps('hourly')}
+                />
+              )}
+            </section>
+
             {/* Visualizations Section */}
             <section>
               <h2 className="text-2xl font-bold text-slate-900 mb-4">Interactive Visualizations</h2>
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                <ChartCard
-                  title="Noise Hotspots Across Delhi NCR"
-                  imagePath={`${basePath}visualizations/Visualizations/03_hotspot_map.png`}
-                  description="Spatial distribution of noise pollution across monitoring stations"
+              <div className="mb-4">
+                <StationFilter
+                  stations={filter.stations}
+                  onChange={(stations) => setFilter({ ...filter, stations })}
                 />
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <ChartCard
                   title="Comparative Noise Levels"
                   imagePath={`${basePath}visualizations/Visualizations/02_comparative_boxplot.png`}
-                  description="Box plot comparison showing distribution of noise levels by location"
-                />
+                  description="Average LAeq per station against its day and night limits. Drag the brush to zoom."
+                >
+                  {stationRankings.length > 0 && (
+                    <StationComparisonChart data={stationRankings} />
+                  )}
+                </ChartCard>
                 <ChartCard
-                  title="Hourly Noise Trends"
-                  imagePath={`${basePath}visualizations/Visualizations/04_hourly_noise_trends.png`}
-                  description="Average noise levels throughout the day"
+                  title="Exceedance Rates"
+                  description="Share of readings above the applicable limit"
+                >
+                  {exceedanceSummary.length > 0 && (
+                    <ExceedanceChart data={exceedanceSummary} />
+                  )}
+                </ChartCard>
+                <ChartCard
+                  title="Violation Severity"
+                  description="Excess over the limit during violations, coloured by severity category"
+                >
+                  {violationSeverity.length > 0 && (
+                    <SeverityChart data={violationSeverity} />
+                  )}
+                </ChartCard>
+                <ChartCard
+                  title="Noise Hotspots Across Delhi NCR"
+                  imagePath={`${basePath}visualizations/Visualizations/03_hotspot_map.png`}
+                  description="Spatial distribution of noise pollution across monitoring stations"
                 />
                 <ChartCard
                   title="Time Series Analysis - ITO"
@@ -141,8 +441,15 @@ function App() {
                 <ChartCard
                   title="Exceedance Choropleth Map"
                   imagePath={`${basePath}visualizations/Visualizations/05_exceedance_choropleth_map.png`}
-                  description="Geographic visualization of violation rates by district"
-                />
+                  description="Violation rates by district, from the stations in each district or interpolated where a district has none"
+                >
+                  {exceedanceSummary.length > 0 && (
+                    <ExceedanceChoropleth
+                      data={exceedanceSummary}
+                      severity={violationSeverity}
+                    />
+                  )}
+                </ChartCard>
                 <ChartCard
                   title="Violation Severity Map"
                   imagePath={`${basePath}visualizations/Visualizations/06_violation_severity_map.png`}
@@ -163,8 +470,26 @@ function App() {
           </div>
         </main>
       ) : (
-        <PredictiveMapDashboard />
+        <PredictiveMapDashboard
+          stationRankings={unfilteredTables.rankings}
+          hourlyStatistics={unfilteredTables.hourly}
+          tablesLoaded={tablesLoaded}
+          onStationSelect={setSelectedStationId}
+        />
       )}
+
+      {/* Station drill-down, opened from table rows and map popups */}
+      <StationDetailPanel
+        profile={selectedProfile}
+        onClose={() => setSelectedStationId(null)}
+        onGeneratePolicies={openPolicySuggestions}
+      />
+      <PolicyModal
+        isOpen={policyLocation !== null}
+        onClose={() => updateView({ policy: undefined }, { push: true })}
+        location={policyLocation}
+        providerId={aiProviderId}
+      />
     </div>
   );
 }
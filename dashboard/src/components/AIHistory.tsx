@@ -0,0 +1,137 @@
+/**
+ * Version list for stored AI outputs, with starring and a side-by-side diff
+ */
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { formatVersionTime, historyText, providerLabel, type AIHistoryEntry } from '../lib/aiHistory';
+import { diffWords, type DiffPart } from '../lib/textDiff';
+import { ChevronDown, ChevronRight, Star, Trash2 } from 'lucide-react';
+
+interface AIHistoryProps {
+  /** Stored versions, newest first */
+  entries: AIHistoryEntry[];
+  /** Version currently shown */
+  shownId?: string;
+  onShow: (entry: AIHistoryEntry) => void;
+  onToggleStar: (entry: AIHistoryEntry) => void;
+  onDelete: (entry: AIHistoryEntry) => void;
+  error?: string;
+}
+
+function VersionDiff({ before, after, labels }: { before: string; after: string; labels: [string, string] }) {
+  const parts = diffWords(before, after);
+  const column = (hidden: DiffPart['type'], changed: DiffPart['type'], changedClass: string) => (
+    <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-wrap">
+      {parts.filter(part => part.type !== hidden).map((part, idx) => (
+        <span key={idx} className={part.type === changed ? changedClass : undefined}>{part.text}</span>
+      ))}
+    </p>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+      <div className="bg-white p-3 rounded-md border border-slate-200">
+        <p className="text-xs font-semibold text-slate-500 mb-2">{labels[0]}</p>
+        {column('added', 'removed', 'bg-red-100 text-red-800 line-through')}
+      </div>
+      <div className="bg-white p-3 rounded-md border border-slate-200">
+        <p className="text-xs font-semibold text-slate-500 mb-2">{labels[1]}</p>
+        {column('removed', 'added', 'bg-green-100 text-green-800')}
+      </div>
+    </div>
+  );
+}
+
+export function AIHistory({ entries, shownId, onShow, onToggleStar, onDelete, error }: AIHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Oldest version is v1
+  const versionOf = (entry: AIHistoryEntry) => entries.length - entries.indexOf(entry);
+
+  const toggleCompare = (id: string) =>
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)
+    );
+
+  const compared = entries
+    .filter(e => compareIds.includes(e.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (entries.length === 0 && !error) return null;
+
+  return (
+    <div className="mt-4">
+      {error && <p className="text-xs text-amber-700 mb-2">{error}</p>}
+      {entries.length > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setOpen(!open)}
+            className="flex items-center gap-1 text-sm font-medium text-slate-700"
+          >
+            {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Version history ({entries.length})
+          </button>
+
+          {open && (
+            <div className="mt-2">
+              <p className="text-xs text-slate-500 mb-2">
+                Star the version to use in reports. Tick two versions to compare them.
+              </p>
+              <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md bg-white">
+                {entries.map(entry => (
+                  <li key={entry.id} className={`flex flex-wrap items-center gap-2 px-3 py-2 text-sm ${entry.id === shownId ? 'bg-purple-50' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(entry.id)}
+                      onChange={() => toggleCompare(entry.id)}
+                      aria-label={`Compare version ${versionOf(entry)}`}
+                    />
+                    <span className="font-medium">v{versionOf(entry)}</span>
+                    <span className="text-slate-600">{formatVersionTime(entry.createdAt)}</span>
+                    <span className="text-xs text-slate-500">
+                      {providerLabel(entry.providerId)} · {entry.model}
+                    </span>
+                    <div className="ml-auto flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => onToggleStar(entry)}
+                        title={entry.starred ? 'Unstar' : 'Star as the version for reports'}
+                      >
+                        <Star className={`h-4 w-4 ${entry.starred ? 'fill-amber-400 text-amber-500' : 'text-slate-400'}`} />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onShow(entry)}
+                        disabled={entry.id === shownId}
+                      >
+                        {entry.id === shownId ? 'Shown' : 'Show'}
+                      </Button>
+                      <Button variant="ghost" size="icon-sm" onClick={() => onDelete(entry)} title="Delete this version">
+                        <Trash2 className="h-4 w-4 text-slate-400" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {compared.length === 2 && (
+                <VersionDiff
+                  before={historyText(compared[0])}
+                  after={historyText(compared[1])}
+                  labels={[
+                    `v${versionOf(compared[0])} · ${formatVersionTime(compared[0].createdAt)}`,
+                    `v${versionOf(compared[1])} · ${formatVersionTime(compared[1].createdAt)}`,
+                  ]}
+                />
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
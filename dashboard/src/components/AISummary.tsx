@@ -1,38 +1,139 @@
 /**
- * AI Summary component with Gemini API integration
+ * AI Summary component, generated through the selected LLM provider.
+ * Each sentence links to the table cells it cites; citations that don't match
+ * the tables are flagged.
  */
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
-import { generateAnalysisSummary } from '../lib/geminiService';
-import { Loader2, Sparkles } from 'lucide-react';
+import { AIHistory } from './AIHistory';
+import { generateAnalysisSummary } from '../lib/aiService';
+import { formatVersionTime, providerLabel } from '../lib/aiHistory';
+import { useAIHistory } from '../lib/useAIHistory';
+import {
+  checkClaims,
+  describeReference,
+  parseSummaryClaims,
+  partialClaimTexts,
+  type AnalysisTables,
+  type CheckedClaim,
+  type ClaimReference,
+  type ReferenceCheck,
+} from '../lib/groundedSummary';
+import { LLM_PROVIDERS } from '../lib/llmProviders';
+import { isAbortError } from '../lib/httpRetry';
+import { AlertTriangle, CheckCircle2, HelpCircle, Loader2, Sparkles, Square, Star } from 'lucide-react';
 
 interface AISummaryProps {
-  keyMetrics: {
-    loudestStation: string;
-    highestAvgNoise: number;
-    avgViolationRate: number;
-  };
+  tables: AnalysisTables;
+  providerId: string;
+  onProviderChange: (providerId: string) => void;
+  /** Called when a citation is clicked, to show the cited table row */
+  onReferenceClick: (reference: ClaimReference) => void;
 }
 
-export function AISummary({ keyMetrics }: AISummaryProps) {
-  const [summary, setSummary] = useState<string>('');
+// History subject for the dashboard-wide summary
+const SUMMARY_SUBJECT = 'overview';
+
+const CLAIM_STATUS = {
+  supported: { icon: CheckCircle2, className: 'text-green-600', label: 'All cited values match the tables' },
+  contradicted: { icon: AlertTriangle, className: 'text-red-600', label: 'Some cited values do not match the tables' },
+  unsupported: { icon: HelpCircle, className: 'text-slate-400', label: 'No citation could be found in the tables' },
+} satisfies Record<CheckedClaim['status'], unknown>;
+
+const CHECK_CLASSES: Record<ReferenceCheck['status'], string> = {
+  match: 'border-slate-200 bg-slate-50 text-slate-700 hover:bg-slate-100',
+  mismatch: 'border-red-300 bg-red-50 text-red-800 hover:bg-red-100',
+  missing: 'border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100',
+};
+
+function ReferenceChip({ check, onClick }: { check: ReferenceCheck; onClick: () => void }) {
+  const { reference, actual, status } = check;
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={status === 'missing'}
+      className={`text-xs px-2 py-0.5 rounded-full border disabled:cursor-not-allowed ${CHECK_CLASSES[status]}`}
+      title={status === 'missing' ? 'This cell is not in the tables' : 'Show the row in its table'}
+    >
+      {describeReference(reference)}: {reference.value}
+      {status === 'mismatch' && actual !== undefined && ` (table: ${parseFloat(actual.toFixed(2))})`}
+      {status === 'missing' && ' (not found)'}
+    </button>
+  );
+}
+
+export function AISummary({ tables, providerId, onProviderChange, onReferenceClick }: AISummaryProps) {
+  const history = useAIHistory('summary', SUMMARY_SUBJECT);
+  const [shownId, setShownId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
+  // Raw JSON received so far while the summary streams in
+  const [streamedText, setStreamedText] = useState('');
+  const [stopped, setStopped] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Cancel an in-flight request when the card unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // The chosen version, else the starred one, else the latest
+  const shown = history.entries.find(e => e.id === shownId) ?? history.starred ?? history.entries[0];
+
+  // Checked against the tables the version was generated from
+  const claims = useMemo(() => {
+    if (shown?.task.kind !== 'summary') return [];
+    try {
+      return checkClaims(parseSummaryClaims(shown.text), shown.task.tables);
+    } catch {
+      return [];
+    }
+  }, [shown]);
 
   const handleGenerateSummary = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
     setLoading(true);
     setError('');
+    setStopped(false);
+    setStreamedText('');
     try {
-      const result = await generateAnalysisSummary(keyMetrics);
-      setSummary(result);
+      const result = await generateAnalysisSummary(providerId, tables, {
+        signal: controller.signal,
+        onText: setStreamedText,
+      });
+      const entry = await history.add({
+        subject: SUMMARY_SUBJECT,
+        task: result.task,
+        prompt: result.prompt,
+        providerId: result.providerId,
+        model: result.model,
+        text: result.text,
+      });
+      setShownId(entry.id);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to generate summary');
+      if (isAbortError(err)) {
+        setStopped(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to generate summary');
+      }
     } finally {
+      controllerRef.current = null;
       setLoading(false);
+      setStreamedText('');
     }
   };
 
+  const handleStop = () => controllerRef.current?.abort();
+
+  const handleProviderChange = (id: string) => {
+    onProviderChange(id);
+    setStopped(false);
+    setError('');
+  };
+
+  const hasModelProvider = LLM_PROVIDERS.some(p => p.id !== 'template' && p.configured);
+
   return (
     <Card className="mb-8 bg-gradient-to-br from-purple-50 to-blue-50">
       <CardHeader>
@@ -41,26 +142,71 @@ export function AISummary({ keyMetrics }: AISummaryProps) {
           AI-Powered Analysis Summary
         </CardTitle>
         <CardDescription>
-          Generate an intelligent summary of the key findings using AI
+          Generate an intelligent summary of the key findings using AI, with every figure checked against the tables
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <Button 
-          onClick={handleGenerateSummary} 
-          disabled={loading || !!summary}
-          className="mb-4"
-        >
-          {loading ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Generating...
-            </>
-          ) : summary ? (
-            'Summary Generated'
-          ) : (
-            'Generate Summary'
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm">
+            AI provider:
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value)}
+              disabled={loading}
+              className="p-1 border rounded-md bg-background"
+            >
+              {LLM_PROVIDERS.map(provider => (
+                <option key={provider.id} value={provider.id} disabled={!provider.configured}>
+                  {provider.label}{provider.configured ? '' : ' (not configured)'}
+                </option>
+              ))}
+            </select>
+          </label>
+          {!hasModelProvider && (
+            <span className="text-xs text-slate-500">
+              No AI model is configured, so summaries are written from templates
+            </span>
+          )}
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Button onClick={handleGenerateSummary} disabled={loading}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : shown ? (
+              'Regenerate'
+            ) : (
+              'Generate Summary'
+            )}
+          </Button>
+          {loading && (
+            <Button variant="outline" onClick={handleStop}>
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
           )}
-        </Button>
+        </div>
+
+        {stopped && (
+          <p className="text-sm text-slate-500 mb-4">Generation stopped. Generate again for a full summary.</p>
+        )}
+
+        {loading && streamedText && (
+          <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm mb-4">
+            <ul className="space-y-3">
+              {partialClaimTexts(streamedText).map((text, idx) => (
+                <li key={idx} className="text-slate-500 leading-relaxed">{text}</li>
+              ))}
+            </ul>
+            <p className="text-xs text-slate-500 mt-3 flex items-center gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Receiving; figures are checked against the tables once the summary is complete
+            </p>
+          </div>
+        )}
 
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-md mb-4">
@@ -69,11 +215,51 @@ export function AISummary({ keyMetrics }: AISummaryProps) {
           </div>
         )}
 
-        {summary && (
+        {shown && !loading && (
           <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
-            <p className="text-slate-700 leading-relaxed whitespace-pre-wrap">{summary}</p>
+            {claims.length === 0 ? (
+              <p className="text-sm text-slate-500">The AI provider returned no claims.</p>
+            ) : (
+              <ul className="space-y-3">
+                {claims.map((claim, idx) => {
+                  const status = CLAIM_STATUS[claim.status];
+                  const StatusIcon = status.icon;
+                  return (
+                    <li key={idx} className="flex gap-2">
+                      <StatusIcon className={`w-4 h-4 mt-1 shrink-0 ${status.className}`} aria-label={status.label}>
+                        <title>{status.label}</title>
+                      </StatusIcon>
+                      <div>
+                        <p className="text-slate-700 leading-relaxed">{claim.text}</p>
+                        {claim.checks.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {claim.checks.map((check, i) => (
+                              <ReferenceChip key={i} check={check} onClick={() => onReferenceClick(check.reference)} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            <p className="text-xs text-slate-500 mt-3 flex flex-wrap items-center gap-1">
+              {shown.starred && <Star className="h-3 w-3 fill-amber-400 text-amber-500" aria-label="Starred for reports" />}
+              Generated by {providerLabel(shown.providerId)} · {shown.model} · {formatVersionTime(shown.createdAt)} ·{' '}
+              {claims.filter(c => c.status === 'supported').length} of {claims.length} claims verified against the tables
+            </p>
           </div>
         )}
+
+        <AIHistory
+          entries={history.entries}
+          shownId={shown?.id}
+          onShow={entry => setShownId(entry.id)}
+          onToggleStar={history.toggleStar}
+          onDelete={history.remove}
+          error={history.error}
+        />
       </CardContent>
     </Card>
   );
@@ -1,15 +1,19 @@
 /**
- * Chart Card component for displaying visualization images
+ * Chart Card component for interactive charts, falling back to the
+ * notebook's static visualization image when no live chart is available
  */
+import type { ReactNode } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 
 interface ChartCardProps {
   title: string;
-  imagePath: string;
+  imagePath?: string;
   description?: string;
+  /** Interactive chart; when omitted the static image is shown instead */
+  children?: ReactNode;
 }
 
-export function ChartCard({ title, imagePath, description }: ChartCardProps) {
+export function ChartCard({ title, imagePath, description, children }: ChartCardProps) {
   return (
     <Card className="overflow-hidden">
       <CardHeader>
@@ -18,14 +22,22 @@ export function ChartCard({ title, imagePath, description }: ChartCardProps) {
           <p className="text-sm text-slate-600 mt-1">{description}</p>
         )}
       </CardHeader>
-      <CardContent className="p-0">
-        <img 
-          src={imagePath} 
-          alt={title}
-          className="w-full h-auto object-contain"
-          loading="lazy"
-        />
-      </CardContent>
+      {children ? (
+        <CardContent>{children}</CardContent>
+      ) : imagePath ? (
+        <CardContent className="p-0">
+          <img 
+            src={imagePath} 
+            alt={title}
+            className="w-full h-auto object-contain"
+            loading="lazy"
+          />
+        </CardContent>
+      ) : (
+        <CardContent>
+          <p className="text-sm text-slate-500 py-8 text-center">No data available</p>
+        </CardContent>
+      )}
     </Card>
   );
 }
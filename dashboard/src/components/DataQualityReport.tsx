@@ -0,0 +1,149 @@
+/**
+ * Per-station data-quality report for raw readings, or the implausible
+ * figures found in the published tables
+ */
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { ShieldCheck } from 'lucide-react';
+import { getStationName } from '../lib/stations';
+import {
+  QUALITY_MODES,
+  QUALITY_RULES,
+  type PublishedQualityIssue,
+  type QualityMode,
+} from '../lib/dataQuality';
+import type { IngestResult } from '../lib/readingsIngest';
+import { TABLE_TITLES } from '../lib/groundedSummary';
+
+interface DataQualityReportProps {
+  /** Raw readings, when loaded; otherwise the published tables are checked */
+  rawResult: IngestResult | null;
+  publishedIssues: PublishedQualityIssue[];
+  mode: QualityMode;
+  onModeChange: (mode: QualityMode) => void;
+}
+
+const MODE_LABELS: Record<QualityMode, string> = {
+  exclude: 'Exclude flagged readings',
+  flag: 'Flag only',
+};
+
+// Below this coverage a station's figures rest on too little data
+const LOW_COVERAGE_PCT = 75;
+
+const formatInterval = (minutes: number) =>
+  minutes >= 60 ? `${parseFloat((minutes / 60).toFixed(1))} h` : `${parseFloat(minutes.toFixed(1))} min`;
+
+export function DataQualityReport({ rawResult, publishedIssues, mode, onModeChange }: DataQualityReportProps) {
+  const { min, max } = QUALITY_RULES.plausibleRange;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Data Quality
+        </CardTitle>
+        <CardDescription>
+          Readings outside {min}–{max} dBA, runs of {QUALITY_RULES.stuckRun} identical values from a stuck sensor, and
+          isolated jumps of {QUALITY_RULES.spikeDb} dB or more are flagged. Gaps over {QUALITY_RULES.dropoutIntervals}× a
+          station's usual interval are dropouts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rawResult ? (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex items-center gap-1" role="group" aria-label="Flagged readings">
+                {QUALITY_MODES.map(option => (
+                  <Button
+                    key={option}
+                    size="sm"
+                    variant={mode === option ? 'default' : 'outline'}
+                    onClick={() => onModeChange(option)}
+                    aria-pressed={mode === option}
+                  >
+                    {MODE_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {rawResult.quality.flagged.toLocaleString()} readings failed a check
+                {rawResult.quality.flagged > 0 &&
+                  (rawResult.qualityMode === 'exclude'
+                    ? ' and are left out of every table'
+                    : ' and are still counted in the tables')}
+                .
+              </p>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Station</th>
+                    <th className="py-2 px-2 font-medium text-right">Readings</th>
+                    <th className="py-2 px-2 font-medium text-right">Interval</th>
+                    <th className="py-2 px-2 font-medium text-right">Coverage</th>
+                    <th className="py-2 px-2 font-medium text-right">Out of range</th>
+                    <th className="py-2 px-2 font-medium text-right">Stuck</th>
+                    <th className="py-2 px-2 font-medium text-right">Spikes</th>
+                    <th className="py-2 px-2 font-medium text-right">Dropouts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rawResult.quality.stations.map(station => (
+                    <tr key={station.station} className="border-b last:border-0">
+                      <td className="py-2">{getStationName(station.station)}</td>
+                      <td className="py-2 px-2 text-right">{station.readings.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right">{formatInterval(station.intervalMinutes)}</td>
+                      <td
+                        className={`py-2 px-2 text-right font-semibold ${
+                          station.coveragePct < LOW_COVERAGE_PCT ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {station.coveragePct.toFixed(1)}%
+                      </td>
+                      <td className="py-2 px-2 text-right">{station.outOfRange.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right">{station.stuck.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right">{station.spikes.toLocaleString()}</td>
+                      <td className="py-2 px-2 text-right">
+                        {station.dropouts.toLocaleString()}
+                        {station.dropouts > 0 && (
+                          <span className="block text-xs text-muted-foreground">
+                            longest {formatInterval(station.longestGapHours * 60)}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Coverage is the share of the readings expected at each station's usual interval, from its first to its last
+              reading, that passed every check.
+            </p>
+          </>
+        ) : publishedIssues.length > 0 ? (
+          <>
+            <p className="text-sm">
+              {publishedIssues.length} implausible figure{publishedIssues.length === 1 ? '' : 's'} in the published tables.
+              They were aggregated from readings that can no longer be excluded; load raw readings to recompute the
+              tables without them.
+            </p>
+            <ul className="text-sm space-y-1 max-h-40 overflow-auto">
+              {publishedIssues.map((issue, idx) => (
+                <li key={idx}>
+                  <span className="font-medium">{TABLE_TITLES[issue.table]}, {issue.row}</span> – {issue.message}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">No implausible figures in the published tables.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Data Table component with sorting and actions
  */
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
@@ -13,36 +13,92 @@ import {
   TableHeader,
   TableRow,
 } from './ui/table';
-import { ArrowUpDown } from 'lucide-react';
-import type { ExceedanceSummary, StationRanking, ViolationSeverity } from '../lib/dataUtils';
-import { getSeverityColor } from '../lib/dataUtils';
+import { ArrowUpDown, Info } from 'lucide-react';
+import type { ExceedanceSummary, HourlyStatistics, StationRanking, ViolationSeverity } from '../lib/dataUtils';
+import { formatHour, getSeverityColor } from '../lib/dataUtils';
+import { getStationName } from '../lib/stations';
+import { matchesRowKey } from '../lib/groundedSummary';
+import type { TableSort } from '../lib/viewState';
+import type { HourlyAcoustics, LevelStatistics, PeriodLevels, StationAcoustics } from '../lib/acoustics';
 
-type TableData = StationRanking | ExceedanceSummary | ViolationSeverity;
+type TableData = StationRanking | ExceedanceSummary | ViolationSeverity | HourlyStatistics;
+// A row with its energetic and percentile levels, when they were computed
+type AcousticRow = Partial<LevelStatistics & PeriodLevels>;
+
+const LEVEL_COLUMNS: { key: keyof LevelStatistics; label: string }[] = [
+  { key: 'Leq_dBA', label: 'Leq (energetic)' },
+  { key: 'L10_dBA', label: 'L10' },
+  { key: 'L50_dBA', label: 'L50' },
+  { key: 'L90_dBA', label: 'L90' },
+];
+const PERIOD_COLUMNS: { key: keyof PeriodLevels; label: string }[] = [
+  { key: 'Lday_dBA', label: 'Lday' },
+  { key: 'Lnight_dBA', label: 'Lnight' },
+  { key: 'Lden_dBA', label: 'Lden' },
+];
+
+const formatLevel = (level: number | undefined) => typeof level === 'number' ? level.toFixed(1) : 'N/A';
 
 interface DataTableProps {
   title: string;
   data: TableData[];
-  type: 'rankings' | 'exceedance' | 'severity';
+  type: 'rankings' | 'exceedance' | 'severity' | 'hourly';
+  /** Adds a details action to each station row */
+  onStationSelect?: (stationId: string) => void;
+  /** Row to highlight and scroll to: a station id, or the hour for the hourly table */
+  highlightedRow?: string;
+  /** Controlled sort order; kept internally when omitted */
+  sort?: TableSort;
+  onSortChange?: (sort: TableSort) => void;
+  /** Energetic and percentile levels for the rankings or hourly rows, from raw readings */
+  acoustics?: StationAcoustics[] | HourlyAcoustics[];
 }
 
-export function DataTable({ title, data, type }: DataTableProps) {
-  const [sortColumn, setSortColumn] = useState<string>('');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+export function DataTable({ title, data, type, onStationSelect, highlightedRow, sort, onSortChange, acoustics = [] }: DataTableProps) {
+  const [localSort, setLocalSort] = useState<TableSort | undefined>();
+  const sortColumn = (sort ?? localSort)?.column ?? '';
+  const sortDirection = (sort ?? localSort)?.direction ?? 'desc';
+  const highlightRef = useRef<HTMLTableRowElement>(null);
+  const showActions = !!onStationSelect && type !== 'hourly';
+  const showAcoustics = acoustics.length > 0 && (type === 'rankings' || type === 'hourly');
+  const acousticColumns = type === 'rankings' ? [...LEVEL_COLUMNS, ...PERIOD_COLUMNS] : LEVEL_COLUMNS;
 
-  const handleSort = (column: string) => {
-    if (sortColumn === column) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortColumn(column);
-      setSortDirection('desc');
+  useEffect(() => {
+    if (highlightedRow !== undefined) {
+      highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }
+  }, [highlightedRow]);
+
+  const highlightProps = (row: TableData) => {
+    const highlighted = highlightedRow !== undefined && matchesRowKey(type, row, highlightedRow);
+    return {
+      ref: highlighted ? highlightRef : undefined,
+      className: highlighted ? 'bg-yellow-100 hover:bg-yellow-100' : undefined,
+    };
   };
 
-  const sortedData = [...data].sort((a, b) => {
+  const handleSort = (column: string) => {
+    const next: TableSort = sortColumn === column
+      ? { column, direction: sortDirection === 'asc' ? 'desc' : 'asc' }
+      : { column, direction: 'desc' };
+    setLocalSort(next);
+    onSortChange?.(next);
+  };
+
+  const rows: (TableData & AcousticRow)[] = showAcoustics
+    ? data.map(row => ({
+        ...row,
+        ...(acoustics as (StationAcoustics | HourlyAcoustics)[]).find(levels =>
+          'Hour' in levels ? levels.Hour === (row as HourlyStatistics).Hour : levels.Location === (row as StationRanking).Location
+        ),
+      }))
+    : data;
+
+  const sortedData = [...rows].sort((a, b) => {
     if (!sortColumn) return 0;
     
-    const aVal = a[sortColumn as keyof TableData];
-    const bVal = b[sortColumn as keyof TableData];
+    const aVal = a[sortColumn as keyof (TableData & AcousticRow)];
+    const bVal = b[sortColumn as keyof (TableData & AcousticRow)];
     
     if (typeof aVal === 'number' && typeof bVal === 'number') {
       return sortDirection === 'asc' ? aVal - bVal : bVal - aVal;
@@ -55,6 +111,22 @@ export function DataTable({ title, data, type }: DataTableProps) {
       : bStr.localeCompare(aStr);
   });
 
+  const renderAcousticHeaders = () =>
+    showAcoustics && acousticColumns.map(({ key, label }) => (
+      <TableHead key={key} className="text-center">
+        <Button variant="ghost" onClick={() => handleSort(key)} className="flex items-center gap-1 font-semibold mx-auto">
+          {label} <ArrowUpDown className="h-4 w-4" />
+        </Button>
+      </TableHead>
+    ));
+
+  const renderAcousticCells = (row: TableData) =>
+    showAcoustics && acousticColumns.map(({ key }) => (
+      <TableCell key={key} className={`text-center ${key === 'Leq_dBA' ? 'font-semibold' : ''}`}>
+        {formatLevel((row as AcousticRow)[key])}
+      </TableCell>
+    ));
+
   const renderTableHeaders = () => {
     if (type === 'rankings') {
       return (
@@ -66,9 +138,10 @@ export function DataTable({ title, data, type }: DataTableProps) {
           </TableHead>
           <TableHead className="text-center">
             <Button variant="ghost" onClick={() => handleSort('Average_LAeq_dBA')} className="flex items-center gap-1 font-semibold mx-auto">
-              Avg Noise (dBA) <ArrowUpDown className="h-4 w-4" />
+              Avg Noise (dBA, arithmetic) <ArrowUpDown className="h-4 w-4" />
             </Button>
           </TableHead>
+          {renderAcousticHeaders()}
           <TableHead className="text-center">Zone Type</TableHead>
           <TableHead className="text-center">Day Limit</TableHead>
           <TableHead className="text-center">Night Limit</TableHead>
@@ -92,6 +165,25 @@ export function DataTable({ title, data, type }: DataTableProps) {
           <TableHead className="text-center">Total Count</TableHead>
         </>
       );
+    } else if (type === 'hourly') {
+      return (
+        <>
+          <TableHead className="text-center">
+            <Button variant="ghost" onClick={() => handleSort('Hour')} className="flex items-center gap-1 font-semibold mx-auto">
+              Hour <ArrowUpDown className="h-4 w-4" />
+            </Button>
+          </TableHead>
+          <TableHead className="text-center">
+            <Button variant="ghost" onClick={() => handleSort('Average_LAeq_dBA')} className="flex items-center gap-1 font-semibold mx-auto">
+              Mean (dBA, arithmetic) <ArrowUpDown className="h-4 w-4" />
+            </Button>
+          </TableHead>
+          {renderAcousticHeaders()}
+          <TableHead className="text-center">Median (dBA)</TableHead>
+          <TableHead className="text-center">Min (dBA)</TableHead>
+          <TableHead className="text-center">Max (dBA)</TableHead>
+        </>
+      );
     } else {
       return (
         <>
@@ -113,25 +205,37 @@ export function DataTable({ title, data, type }: DataTableProps) {
     }
   };
 
+  const renderActionCell = (stationId: string) =>
+    showActions && (
+      <TableCell className="text-center">
+        <Button variant="outline" size="sm" onClick={() => onStationSelect?.(stationId)}>
+          <Info className="h-4 w-4" />
+          Details
+        </Button>
+      </TableCell>
+    );
+
   const renderTableRow = (row: TableData, index: number) => {
     if (type === 'rankings') {
       const r = row as StationRanking;
       return (
-        <TableRow key={index}>
-          <TableCell className="font-medium text-center">{r.Location || 'N/A'}</TableCell>
+        <TableRow key={index} {...highlightProps(row)}>
+          <TableCell className="font-medium text-center">{r.Location ? getStationName(r.Location) : 'N/A'}</TableCell>
           <TableCell className="font-semibold text-red-600 text-center">
             {typeof r.Average_LAeq_dBA === 'number' ? r.Average_LAeq_dBA.toFixed(1) : 'N/A'}
           </TableCell>
+          {renderAcousticCells(row)}
           <TableCell className="text-center">{r.Zone_Type || 'N/A'}</TableCell>
           <TableCell className="text-center">{r.Day_Limit_dBA || 'N/A'}</TableCell>
           <TableCell className="text-center">{r.Night_Limit_dBA || 'N/A'}</TableCell>
+          {renderActionCell(r.Location)}
         </TableRow>
       );
     } else if (type === 'exceedance') {
       const r = row as ExceedanceSummary;
       return (
-        <TableRow key={index}>
-          <TableCell className="font-medium text-center">{r.Location || 'N/A'}</TableCell>
+        <TableRow key={index} {...highlightProps(row)}>
+          <TableCell className="font-medium text-center">{r.Location ? getStationName(r.Location) : 'N/A'}</TableCell>
           <TableCell className="text-center">{r.Zone_Type || 'N/A'}</TableCell>
           <TableCell className="font-semibold text-orange-600 text-center">
             {typeof r.Exceedance_Percentage === 'number' ? r.Exceedance_Percentage.toFixed(1) : 'N/A'}%
@@ -142,13 +246,34 @@ export function DataTable({ title, data, type }: DataTableProps) {
           <TableCell className="text-center">
             {typeof r.Total_Count === 'number' ? r.Total_Count.toLocaleString() : 'N/A'}
           </TableCell>
+          {renderActionCell(r.Location)}
+        </TableRow>
+      );
+    } else if (type === 'hourly') {
+      const r = row as HourlyStatistics;
+      return (
+        <TableRow key={index} {...highlightProps(row)}>
+          <TableCell className="font-medium text-center">{formatHour(r.Hour)}</TableCell>
+          <TableCell className="font-semibold text-center">
+            {typeof r.Average_LAeq_dBA === 'number' ? r.Average_LAeq_dBA.toFixed(1) : 'N/A'}
+          </TableCell>
+          {renderAcousticCells(row)}
+          <TableCell className="text-center">
+            {typeof r.Median_LAeq_dBA === 'number' ? r.Median_LAeq_dBA.toFixed(1) : 'N/A'}
+          </TableCell>
+          <TableCell className="text-center">
+            {typeof r.Min_LAeq_dBA === 'number' ? r.Min_LAeq_dBA.toFixed(1) : 'N/A'}
+          </TableCell>
+          <TableCell className="text-center">
+            {typeof r.Max_LAeq_dBA === 'number' ? r.Max_LAeq_dBA.toFixed(1) : 'N/A'}
+          </TableCell>
         </TableRow>
       );
     } else {
       const r = row as ViolationSeverity;
       return (
-        <TableRow key={index}>
-          <TableCell className="font-medium text-center">{r.Location || 'N/A'}</TableCell>
+        <TableRow key={index} {...highlightProps(row)}>
+          <TableCell className="font-medium text-center">{r.Location ? getStationName(r.Location) : 'N/A'}</TableCell>
           <TableCell className="text-center">{r.Zone_Type || 'N/A'}</TableCell>
           <TableCell className="font-semibold text-center">
             {typeof r.Avg_Excess_dBA === 'number' ? r.Avg_Excess_dBA.toFixed(1) : 'N/A'}
@@ -161,6 +286,7 @@ export function DataTable({ title, data, type }: DataTableProps) {
               {r.Severity_Category || 'N/A'}
             </Badge>
           </TableCell>
+          {renderActionCell(r.Location)}
         </TableRow>
       );
     }
@@ -177,6 +303,7 @@ export function DataTable({ title, data, type }: DataTableProps) {
             <TableHeader>
               <TableRow>
                 {renderTableHeaders()}
+                {showActions && <TableHead className="text-center">Actions</TableHead>}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -184,6 +311,14 @@ export function DataTable({ title, data, type }: DataTableProps) {
             </TableBody>
           </Table>
         </div>
+        {showAcoustics && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            The arithmetic mean averages dBA values directly, as the notebook does; Leq averages sound energy and weighs
+            loud readings more. Ln is the level exceeded n% of the time.
+            {type === 'rankings' &&
+              ' Lday and Lnight use the day and night of the limit profile; Lden adds 5 dB to evening (19–23) and 10 dB to night (23–07) levels.'}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
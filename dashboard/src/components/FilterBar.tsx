@@ -0,0 +1,134 @@
+/**
+ * Dashboard-wide filter: date range, stations, zone types and day/night
+ */
+import { Button } from './ui/button';
+import { Filter, X } from 'lucide-react';
+import { STATIONS, type ZoneType } from '../lib/stations';
+import { ZONE_TYPES } from '../lib/tableSchemas';
+import {
+  DEFAULT_READING_FILTER,
+  filterDate,
+  hasDateRange,
+  isFilterActive,
+  periodLabel,
+  PERIODS,
+  type ReadingFilter,
+} from '../lib/readingFilter';
+import type { LimitProfile } from '../lib/limitProfiles';
+
+interface FilterBarProps {
+  filter: ReadingFilter;
+  onChange: (filter: ReadingFilter) => void;
+  /** Profile whose hours define day and night */
+  limits: LimitProfile;
+  /** Raw readings are loaded, so every part of the filter applies */
+  rawReadings: boolean;
+  /** Wall-clock milliseconds of the first and last reading, for the date inputs */
+  firstReading?: number;
+  lastReading?: number;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export function FilterBar({ filter, onChange, limits, rawReadings, firstReading, lastReading }: FilterBarProps) {
+  const update = (change: Partial<ReadingFilter>) => onChange({ ...filter, ...change });
+  const minDate = firstReading !== undefined ? filterDate(firstReading) : undefined;
+  const maxDate = lastReading !== undefined ? filterDate(lastReading) : undefined;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-md p-4 mb-6 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <Filter className="h-4 w-4" />
+          Filter
+        </span>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          From
+          <input
+            type="date"
+            value={filter.from ?? ''}
+            min={minDate}
+            max={filter.to ?? maxDate}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+            disabled={!rawReadings}
+            className="p-1 border rounded-md bg-background"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          To
+          <input
+            type="date"
+            value={filter.to ?? ''}
+            min={filter.from ?? minDate}
+            max={maxDate}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+            disabled={!rawReadings}
+            className="p-1 border rounded-md bg-background"
+          />
+        </label>
+        <div className="flex items-center gap-1" role="group" aria-label="Time of day">
+          {PERIODS.map(period => (
+            <Button
+              key={period}
+              size="sm"
+              variant={filter.period === period ? 'default' : 'outline'}
+              onClick={() => update({ period })}
+              aria-pressed={filter.period === period}
+            >
+              {periodLabel(period, limits)}
+            </Button>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="ml-auto"
+          onClick={() => onChange(DEFAULT_READING_FILTER)}
+          disabled={!isFilterActive(filter)}
+        >
+          <X className="h-4 w-4" />
+          Clear filter
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-600 mr-1">Zones:</span>
+        {ZONE_TYPES.map((zone: ZoneType) => (
+          <Button
+            key={zone}
+            size="sm"
+            variant={filter.zoneTypes.includes(zone) ? 'default' : 'outline'}
+            onClick={() => update({ zoneTypes: toggle(filter.zoneTypes, zone) })}
+            aria-pressed={filter.zoneTypes.includes(zone)}
+          >
+            {zone}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-slate-600 mr-1">Stations:</span>
+        {STATIONS.map(station => (
+          <Button
+            key={station.id}
+            size="sm"
+            variant={filter.stations.includes(station.id) ? 'default' : 'outline'}
+            onClick={() => update({ stations: toggle(filter.stations, station.id) })}
+            aria-pressed={filter.stations.includes(station.id)}
+          >
+            {station.name}
+          </Button>
+        ))}
+      </div>
+
+      {!rawReadings && (
+        <p className="text-xs text-muted-foreground">
+          The published tables cover the whole monitoring period, so the date range needs raw readings, and the hourly
+          statistics only follow day/night.
+          {hasDateRange(filter) && ' The date range in the link is ignored until raw readings are loaded.'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Forecast timeline: a full day or week of chained hourly predictions with
+ * per-station sparklines and an animated map
+ */
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, CircleMarker, Popup } from 'react-leaflet';
+import { LineChart, Line, ReferenceLine, ResponsiveContainer, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Loader2, Pause, Play, SkipBack, History } from 'lucide-react';
+import { Basemap } from './map/Basemap';
+import { DAY_NAMES, formatHour } from '../lib/dataUtils';
+import { getStationName } from '../lib/stations';
+import { DELHI_CENTER, DELHI_ZOOM, getNoiseColor, getNoiseRadius } from '../lib/mapStyles';
+import { withLimitProfile, type HistoricalBaseline } from '../lib/predictionModel';
+import type { LimitProfile } from '../lib/limitProfiles';
+import { getPredictionProvider, isAbortError } from '../lib/predictionProviders';
+import { runForecastTimeline, type TimelineFrame, type TimelineSpan } from '../lib/forecastTimeline';
+
+interface ForecastTimelineProps {
+  providerId: string;
+  dayOfWeek: number;
+  noiseLag: number;
+  seed: number;
+  baseline: HistoricalBaseline;
+  limits: LimitProfile;
+  tileSourceId: string;
+  onStationSelect?: (stationId: string) => void;
+}
+
+// Milliseconds between frames during playback
+const PLAYBACK_INTERVAL_MS = 600;
+
+interface StationSparklineProps {
+  stationId: string;
+  values: { index: number; noise: number; limit: number }[];
+  frameIndex: number;
+}
+
+function StationSparkline({ stationId, values, frameIndex }: StationSparklineProps) {
+  const current = values[frameIndex];
+  const isViolation = current && current.noise > current.limit;
+
+  return (
+    <div className="border rounded-md p-2">
+      <div className="flex justify-between items-baseline text-sm">
+        <span className="font-medium truncate">{getStationName(stationId)}</span>
+        {current && (
+          <span className={isViolation ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+            {current.noise.toFixed(1)} dBA
+          </span>
+        )}
+      </div>
+      <div className="h-12 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={values} margin={{ top: 4, right: 2, bottom: 4, left: 2 }}>
+            <XAxis dataKey="index" hide />
+            <YAxis hide domain={['dataMin - 2', 'dataMax + 2']} />
+            <Line type="stepAfter" dataKey="limit" stroke="#dc2626" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="noise" stroke="#2563eb" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <ReferenceLine x={frameIndex} stroke="#0f172a" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export function ForecastTimeline({ providerId, dayOfWeek, noiseLag, seed, baseline, limits, tileSourceId, onStationSelect }: ForecastTimelineProps) {
+  const [span, setSpan] = useState<TimelineSpan>('day');
+  const [predictedFrames, setPredictedFrames] = useState<TimelineFrame[]>([]);
+  const [frameIndex, setFrameIndex] = useState<number>(0);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string>('');
+  const requestRef = useRef<AbortController | null>(null);
+
+  const runTimeline = async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setIsLoading(true);
+    setIsPlaying(false);
+    setError('');
+    setProgress(0);
+
+    try {
+      const result = await runForecastTimeline(
+        getPredictionProvider(providerId),
+        { span, dayOfWeek, initialNoiseLag: noiseLag, seed },
+        { signal: controller.signal, baseline, limits, onProgress: p => setProgress(p.progress) }
+      );
+      setPredictedFrames(result);
+      setFrameIndex(0);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'Failed to compute the forecast timeline');
+      console.error(err);
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Violation status follows the selected limit profile without another run
+  const frames = useMemo(
+    () => predictedFrames.map(f => ({ ...f, points: f.points.map(point => withLimitProfile(point, f.hour, limits)) })),
+    [predictedFrames, limits]
+  );
+
+  // Cancel any in-flight timeline on unmount
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Advance one frame per tick while playing, stopping at the end
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (frameIndex >= frames.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex(index => index + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, frames.length]);
+
+  const stationSeries = useMemo(() => {
+    const series: Record<string, { index: number; noise: number; limit: number }[]> = {};
+    frames.forEach((frame, index) => {
+      frame.points.forEach(point => {
+        (series[point.location] ??= []).push({ index, noise: point.predicted_noise, limit: point.noise_limit });
+      });
+    });
+    return series;
+  }, [frames]);
+
+  const frame = frames[frameIndex];
+  const frameLabel = (f: TimelineFrame) => `${DAY_NAMES[f.dayOfWeek]} ${formatHour(f.hour)}`;
+
+  const togglePlay = () => {
+    if (!isPlaying && frameIndex >= frames.length - 1) {
+      setFrameIndex(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Forecast Timeline
+        </CardTitle>
+        <CardDescription>
+          Chained hourly forecast: each hour's prediction becomes the next hour's previous-hour level
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex gap-2">
+            <Button variant={span === 'day' ? 'default' : 'outline'} size="sm" onClick={() => setSpan('day')} disabled={isLoading}>
+              24 hours ({DAY_NAMES[dayOfWeek]})
+            </Button>
+            <Button variant={span === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setSpan('week')} disabled={isLoading}>
+              Full week
+            </Button>
+          </div>
+          <Button onClick={runTimeline} disabled={isLoading} size="sm">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Forecasting... {progress}%
+              </>
+            ) : (
+              'Run Timeline'
+            )}
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Starts from the selected previous-hour condition ({noiseLag} dBA) with seed {seed}
+          </span>
+        </div>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {frame && (
+          <>
+            {/* Playback controls */}
+            <div className="flex items-center gap-3">
+              <Button variant="outline" size="icon-sm" onClick={() => { setIsPlaying(false); setFrameIndex(0); }} aria-label="Back to start">
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="icon-sm" onClick={togglePlay} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <input
+                type="range"
+                min={0}
+                max={frames.length - 1}
+                value={frameIndex}
+                onChange={(e) => { setIsPlaying(false); setFrameIndex(parseInt(e.target.value)); }}
+                className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-primary"
+                aria-label="Timeline position"
+              />
+              <span className="text-sm font-semibold w-36 text-right">{frameLabel(frame)}</span>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Animated map */}
+              <div className="lg:col-span-2 h-[420px] rounded-md overflow-hidden border-2 border-primary/20">
+                <MapContainer center={DELHI_CENTER} zoom={DELHI_ZOOM} style={{ height: '100%', width: '100%' }}>
+                  <Basemap sourceId={tileSourceId} />
+                  {frame.points.map(spot => (
+                    <CircleMarker
+                      key={spot.location}
+                      center={[spot.latitude, spot.longitude]}
+                      pathOptions={{
+                        color: spot.is_violation ? '#dc2626' : getNoiseColor(spot.predicted_noise),
+                        fillColor: getNoiseColor(spot.predicted_noise),
+                        fillOpacity: 0.8
+                      }}
+                      radius={getNoiseRadius(spot.predicted_noise)}
+                    >
+                      <Popup>
+                        <div className="space-y-1">
+                          <strong className="text-lg">{getStationName(spot.location)}</strong>
+                          <p><strong>{frameLabel(frame)}:</strong> {spot.predicted_noise.toFixed(2)} dBA</p>
+                          <p><strong>Limit:</strong> {spot.noise_limit} dBA</p>
+                          <p><strong>Status:</strong> <span className={spot.is_violation ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                            {spot.is_violation ? 'VIOLATION' : 'Compliant'}
+                          </span></p>
+                          {onStationSelect && (
+                            <Button size="sm" variant="outline" className="mt-1" onClick={() => onStationSelect(spot.location)}>
+                              Station details
+                            </Button>
+                          )}
+                        </div>
+                      </Popup>
+                    </CircleMarker>
+                  ))}
+                </MapContainer>
+              </div>
+
+              {/* Per-station sparklines */}
+              <div className="space-y-2 max-h-[420px] overflow-y-auto pr-1">
+                {Object.entries(stationSeries).map(([stationId, values]) => (
+                  <StationSparkline key={stationId} stationId={stationId} values={values} frameIndex={frameIndex} />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
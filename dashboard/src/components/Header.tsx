@@ -1,7 +1,12 @@
 /**
  * Header component for the dashboard
  */
-export function Header() {
+interface HeaderProps {
+  /** Descriptions of the active filter's parts; nothing is shown when empty */
+  activeFilter?: string[];
+}
+
+export function Header({ activeFilter = [] }: HeaderProps) {
   return (
     <header className="bg-slate-900 text-white py-8 px-6 shadow-lg">
       <div className="container mx-auto">
@@ -11,6 +16,14 @@ export function Header() {
         <p className="text-lg text-slate-300">
           An interactive dashboard presenting findings from 10 CPCB monitoring stations
         </p>
+        {activeFilter.length > 0 && (
+          <p className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-400">Filtered to</span>
+            {activeFilter.map(part => (
+              <span key={part} className="rounded-full bg-slate-700 px-3 py-0.5">{part}</span>
+            ))}
+          </p>
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,253 @@
+/**
+ * What-if simulator: apply interventions to chosen stations and compare the
+ * prediction run before and after
+ */
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { FlaskConical, Plus, Trash2 } from 'lucide-react';
+import { PredictionMap } from './map/PredictionMap';
+import { formatHour } from '../lib/dataUtils';
+import { getStationName } from '../lib/stations';
+import type { MapDataPoint } from '../lib/predictionModel';
+import {
+  applyInterventions,
+  createIntervention,
+  describeIntervention,
+  INTERVENTION_LABELS,
+  summarizeInterventions,
+  type Intervention,
+  type InterventionKind,
+} from '../lib/interventions';
+
+interface InterventionSimulatorProps {
+  /** Predictions of the current run */
+  points: MapDataPoint[];
+  /** Hour the run was made for; curfews only act inside their window */
+  hour: number;
+  tileSourceId: string;
+  onStationSelect?: (stationId: string) => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+export function InterventionSimulator({ points, hour, tileSourceId, onStationSelect }: InterventionSimulatorProps) {
+  const [interventions, setInterventions] = useState<Intervention[]>([]);
+  const [draftKind, setDraftKind] = useState<InterventionKind>('traffic');
+  const [draftStations, setDraftStations] = useState<string[]>([]);
+
+  const after = useMemo(() => applyInterventions(points, interventions, hour), [points, interventions, hour]);
+  const outcome = useMemo(() => summarizeInterventions(points, after), [points, after]);
+  const targeted = useMemo(() => [...new Set(interventions.flatMap(i => i.stations))], [interventions]);
+
+  const toggleDraftStation = (id: string) =>
+    setDraftStations(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const addIntervention = () => {
+    setInterventions(prev => [...prev, createIntervention(draftKind, draftStations)]);
+    setDraftStations([]);
+  };
+
+  const updateIntervention = (index: number, intervention: Intervention) =>
+    setInterventions(prev => prev.map((item, i) => i === index ? intervention : item));
+
+  const removeIntervention = (index: number) =>
+    setInterventions(prev => prev.filter((_, i) => i !== index));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="h-5 w-5" />
+          What-if Interventions
+        </CardTitle>
+        <CardDescription>
+          Apply measures to chosen stations and see the predicted effect at {formatHour(hour)}, checked against the same zone limits
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* New intervention */}
+        <div className="space-y-3 border rounded-md p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm font-medium flex items-center gap-2">
+              Intervention:
+              <select
+                value={draftKind}
+                onChange={(e) => setDraftKind(e.target.value as InterventionKind)}
+                className="p-2 border rounded-md bg-background"
+              >
+                {(Object.keys(INTERVENTION_LABELS) as InterventionKind[]).map(kind => (
+                  <option key={kind} value={kind}>{INTERVENTION_LABELS[kind]}</option>
+                ))}
+              </select>
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setDraftStations(points.filter(p => p.is_violation).map(p => p.location))}
+            >
+              Select violating stations
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDraftStations([])} disabled={draftStations.length === 0}>
+              Clear
+            </Button>
+            <Button size="sm" onClick={addIntervention} disabled={draftStations.length === 0} className="ml-auto">
+              <Plus className="h-4 w-4" />
+              Add to {draftStations.length} station{draftStations.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-2">
+            {points.map(point => (
+              <label key={point.location} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draftStations.includes(point.location)}
+                  onChange={() => toggleDraftStation(point.location)}
+                />
+                <span className={point.is_violation ? 'text-red-600' : undefined}>{getStationName(point.location)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Applied interventions */}
+        {interventions.length > 0 && (
+          <ul className="divide-y border rounded-md">
+            {interventions.map((intervention, index) => (
+              <li key={index} className="flex flex-wrap items-center gap-3 px-4 py-2 text-sm">
+                <span className="font-medium">{describeIntervention(intervention)}</span>
+                {intervention.kind === 'traffic' && (
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={intervention.reductionPct}
+                      onChange={(e) => updateIntervention(index, {
+                        ...intervention,
+                        reductionPct: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)),
+                      })}
+                      className="w-20 p-1 border rounded-md bg-background"
+                      aria-label="Traffic reduction percentage"
+                    />
+                    %
+                  </label>
+                )}
+                {intervention.kind === 'construction-curfew' && (
+                  <span className="flex items-center gap-1">
+                    <select
+                      value={intervention.startHour}
+                      onChange={(e) => updateIntervention(index, { ...intervention, startHour: parseInt(e.target.value) })}
+                      className="p-1 border rounded-md bg-background"
+                      aria-label="Curfew start"
+                    >
+                      {HOURS.map(h => <option key={h} value={h}>{formatHour(h)}</option>)}
+                    </select>
+                    to
+                    <select
+                      value={intervention.endHour}
+                      onChange={(e) => updateIntervention(index, { ...intervention, endHour: parseInt(e.target.value) })}
+                      className="p-1 border rounded-md bg-background"
+                      aria-label="Curfew end"
+                    >
+                      {HOURS.map(h => <option key={h} value={h}>{formatHour(h)}</option>)}
+                    </select>
+                  </span>
+                )}
+                <span className="text-muted-foreground">
+                  {intervention.stations.map(getStationName).join(', ')}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  className="ml-auto"
+                  onClick={() => removeIntervention(index)}
+                  title="Remove this intervention"
+                >
+                  <Trash2 className="h-4 w-4 text-slate-400" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {interventions.length > 0 && (
+          <>
+            {/* Before/after metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="border rounded-md p-4">
+                <p className="text-sm font-medium text-muted-foreground">Average Noise</p>
+                <p className="text-2xl font-bold">
+                  {outcome.before.avgNoise.toFixed(1)} → {outcome.after.avgNoise.toFixed(1)} <span className="text-base">dBA</span>
+                </p>
+              </div>
+              <div className="border rounded-md p-4">
+                <p className="text-sm font-medium text-muted-foreground">Violations</p>
+                <p className="text-2xl font-bold text-destructive">
+                  {outcome.before.violations} → {outcome.after.violations}
+                </p>
+              </div>
+              <div className="border rounded-md p-4">
+                <p className="text-sm font-medium text-muted-foreground">Moved to Compliant</p>
+                <p className="text-2xl font-bold text-green-700">{outcome.movedToCompliant.length}</p>
+                {outcome.movedToCompliant.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {outcome.movedToCompliant.map(getStationName).join(', ')}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Before/after maps */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <PredictionMap title="Before" points={points} tileSourceId={tileSourceId} onStationSelect={onStationSelect} />
+              <PredictionMap
+                title="After"
+                points={after}
+                tileSourceId={tileSourceId}
+                highlighted={targeted}
+                onStationSelect={onStationSelect}
+              />
+            </div>
+
+            {/* Per-station changes */}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 font-medium">Station</th>
+                  <th className="py-2 font-medium text-right">Before (dBA)</th>
+                  <th className="py-2 font-medium text-right">After (dBA)</th>
+                  <th className="py-2 font-medium text-right">Change (dB)</th>
+                  <th className="py-2 font-medium text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outcome.changes.map(change => {
+                  const isViolation = after.find(p => p.location === change.location)?.is_violation;
+                  const moved = outcome.movedToCompliant.includes(change.location);
+                  return (
+                    <tr key={change.location} className="border-b last:border-0">
+                      <td className="py-2">{getStationName(change.location)}</td>
+                      <td className="py-2 text-right">{change.before.toFixed(1)}</td>
+                      <td className="py-2 text-right">{change.after.toFixed(1)}</td>
+                      <td className="py-2 text-right">{change.deltaDb.toFixed(1)}</td>
+                      <td className="py-2 text-right">
+                        <Badge variant={isViolation ? 'destructive' : 'default'}>
+                          {isViolation ? 'Violation' : moved ? 'Now compliant' : 'Compliant'}
+                        </Badge>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">
+              Each zone type's level is split into traffic, horn, construction and other sources; an intervention removes part of its sources' sound energy. The shares are planning assumptions, not measurements.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
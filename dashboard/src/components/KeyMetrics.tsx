@@ -34,6 +34,7 @@ export function KeyMetrics({ loudestStation, highestAvgNoise, avgViolationRate }
           <div className="text-3xl font-bold text-slate-900">
             {formatNumber(highestAvgNoise)} <span className="text-lg text-slate-600">dBA</span>
           </div>
+          <p className="text-xs text-slate-500 mt-1">Arithmetic mean of the loudest station's readings</p>
         </CardContent>
       </Card>
 
@@ -43,6 +44,7 @@ export function KeyMetrics({ loudestStation, highestAvgNoise, avgViolationRate }
         </CardHeader>
         <CardContent>
           <div className="text-3xl font-bold text-slate-900">{formatNumber(avgViolationRate)}%</div>
+          <p className="text-xs text-slate-500 mt-1">Unweighted mean of the station violation rates</p>
         </CardContent>
       </Card>
     </div>
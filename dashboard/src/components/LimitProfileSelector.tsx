@@ -0,0 +1,234 @@
+/**
+ * Regulatory limit profile picker, with an editor for the custom profile
+ */
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Scale } from 'lucide-react';
+import { ZONE_TYPES } from '../lib/tableSchemas';
+import { formatHour } from '../lib/dataUtils';
+import {
+  CUSTOM_PROFILE_ID,
+  customProfileFrom,
+  dayHoursLabel,
+  LIMIT_PROFILES,
+  nightHoursLabel,
+  profileProblem,
+  type LimitExemption,
+  type LimitProfile,
+} from '../lib/limitProfiles';
+
+interface LimitProfileSelectorProps {
+  limits: LimitProfile;
+  onChange: (limits: LimitProfile) => void;
+  /** What the profile does or doesn't apply to in this view */
+  note?: string;
+  className?: string;
+}
+
+const numberInputClass = 'w-16 p-1 border rounded-md bg-background text-right';
+
+// Empty inputs become NaN, which the profile check rejects
+const readNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+const showNumber = (value: number) => (Number.isNaN(value) ? '' : value);
+
+const describeExemption = (exemption: LimitExemption) =>
+  `${exemption.name}: ${formatHour(exemption.fromHour)}–${formatHour(exemption.toHour)} on ${exemption.dates.join(', ') || 'no dates'}`;
+
+function CustomLimitsEditor({ initial, onChange }: { initial: LimitProfile; onChange: (limits: LimitProfile) => void }) {
+  // Edits are kept here while they don't form a valid profile
+  const [draft, setDraft] = useState(initial);
+  const [datesText, setDatesText] = useState(initial.exemptions[0]?.dates.join(', ') ?? '');
+  const problem = profileProblem(draft);
+
+  const update = (next: LimitProfile) => {
+    setDraft(next);
+    if (!profileProblem(next)) onChange(next);
+  };
+
+  const [exemption, ...otherExemptions] = draft.exemptions;
+  const updateExemption = (change: Partial<LimitExemption>) => {
+    const current = exemption ?? { name: 'Exemption', dates: [], fromHour: 22, toHour: 24 };
+    const next = { ...current, ...change };
+    update({ ...draft, exemptions: next.dates.length > 0 ? [next, ...otherExemptions] : otherExemptions });
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {ZONE_TYPES.map(zone => (
+          <div key={zone} className="text-sm">
+            <p className="font-medium text-slate-700 mb-1">{zone}</p>
+            <div className="flex items-center gap-2 text-slate-600">
+              <label className="flex items-center gap-1">
+                Day
+                <input
+                  type="number"
+                  min={0}
+                  max={200}
+                  value={showNumber(draft.zones[zone].day)}
+                  onChange={(e) => update({
+                    ...draft,
+                    zones: { ...draft.zones, [zone]: { ...draft.zones[zone], day: readNumber(e.target.value) } },
+                  })}
+                  className={numberInputClass}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                Night
+                <input
+                  type="number"
+                  min={0}
+                  max={200}
+                  value={showNumber(draft.zones[zone].night)}
+                  onChange={(e) => update({
+                    ...draft,
+                    zones: { ...draft.zones, [zone]: { ...draft.zones[zone], night: readNumber(e.target.value) } },
+                  })}
+                  className={numberInputClass}
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          Day starts at
+          <input
+            type="number"
+            min={0}
+            max={23}
+            value={showNumber(draft.dayStartHour)}
+            onChange={(e) => update({ ...draft, dayStartHour: readNumber(e.target.value) })}
+            className={numberInputClass}
+          />
+          :00
+        </label>
+        <label className="flex items-center gap-2">
+          Night starts at
+          <input
+            type="number"
+            min={0}
+            max={23}
+            value={showNumber(draft.nightStartHour)}
+            onChange={(e) => update({ ...draft, nightStartHour: readNumber(e.target.value) })}
+            className={numberInputClass}
+          />
+          :00
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+        <label className="flex items-center gap-2">
+          Exemption
+          <input
+            type="text"
+            value={exemption?.name ?? ''}
+            placeholder="Festival nights"
+            onChange={(e) => updateExemption({ name: e.target.value })}
+            disabled={!exemption}
+            className="w-48 p-1 border rounded-md bg-background"
+          />
+        </label>
+        <label className="flex items-center gap-2 grow">
+          Exempt dates
+          <input
+            type="text"
+            value={datesText}
+            placeholder="2023-11-12, 12-31"
+            onChange={(e) => {
+              setDatesText(e.target.value);
+              updateExemption({ dates: e.target.value.split(',').map(d => d.trim()).filter(Boolean) });
+            }}
+            className="grow p-1 border rounded-md bg-background"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          from
+          <input
+            type="number"
+            min={0}
+            max={23}
+            value={showNumber(exemption?.fromHour ?? 22)}
+            onChange={(e) => updateExemption({ fromHour: readNumber(e.target.value) })}
+            disabled={!exemption}
+            className={numberInputClass}
+          />
+          :00 to
+          <input
+            type="number"
+            min={1}
+            max={24}
+            value={showNumber(exemption?.toHour ?? 24)}
+            onChange={(e) => updateExemption({ toHour: readNumber(e.target.value) })}
+            disabled={!exemption}
+            className={numberInputClass}
+          />
+          :00
+        </label>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Dates are YYYY-MM-DD for one day or MM-DD for every year. Readings in the window on those dates never count as
+        exceedances.
+      </p>
+      {problem && <p className="text-sm text-red-600">Not applied: {problem}.</p>}
+    </div>
+  );
+}
+
+export function LimitProfileSelector({ limits, onChange, note, className = 'mb-6' }: LimitProfileSelectorProps) {
+  const isCustom = limits.id === CUSTOM_PROFILE_ID;
+
+  return (
+    <div className={`bg-white border border-slate-200 rounded-md p-4 space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <Scale className="h-4 w-4" />
+          Limits
+        </span>
+        <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Limit profile">
+          {LIMIT_PROFILES.map(profile => (
+            <Button
+              key={profile.id}
+              size="sm"
+              variant={limits.id === profile.id ? 'default' : 'outline'}
+              onClick={() => onChange(profile)}
+              aria-pressed={limits.id === profile.id}
+            >
+              {profile.name}
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant={isCustom ? 'default' : 'outline'}
+            onClick={() => !isCustom && onChange(customProfileFrom(limits))}
+            aria-pressed={isCustom}
+          >
+            Custom
+          </Button>
+        </div>
+        <span className="text-sm text-slate-600">
+          Day {dayHoursLabel(limits)} · Night {nightHoursLabel(limits)}
+        </span>
+      </div>
+
+      <p className="text-sm text-slate-600">
+        {ZONE_TYPES.map(zone => `${zone} ${limits.zones[zone].day}/${limits.zones[zone].night}`).join(' · ')} dBA
+        (day/night)
+      </p>
+      <p className="text-xs text-muted-foreground">{limits.description}</p>
+      {!isCustom && limits.exemptions.length > 0 && (
+        <ul className="text-xs text-muted-foreground">
+          {limits.exemptions.map(exemption => (
+            <li key={exemption.name}>{describeExemption(exemption)}</li>
+          ))}
+        </ul>
+      )}
+
+      {isCustom && <CustomLimitsEditor initial={limits} onChange={onChange} />}
+
+      {note && <p className="text-xs text-muted-foreground">{note}</p>}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 /**
- * Policy Modal component for AI-generated policy suggestions
+ * Policy Modal component for AI-generated policy recommendations, shown as
+ * cards. Every version is kept in the local history; recommendations appear
+ * as they stream in, and closing the dialog cancels the request.
  */
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -9,54 +11,152 @@ import {
   DialogHeader,
   DialogTitle,
 } from './ui/dialog';
-import { generatePolicySuggestions } from '../lib/geminiService';
-import { Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { AIHistory } from './AIHistory';
+import { PolicyRecommendationCards } from './PolicyRecommendationCards';
+import { generatePolicySuggestions } from '../lib/aiService';
+import { formatVersionTime, listReportVersions, providerLabel } from '../lib/aiHistory';
+import { downloadFile } from '../lib/download';
+import { partialStringValues } from '../lib/jsonOutput';
+import {
+  formatRecommendationError,
+  parsePolicyRecommendations,
+  recommendationsToCSV,
+  type StationRecommendation,
+} from '../lib/policyRecommendations';
+import { useAIHistory } from '../lib/useAIHistory';
+import { isAbortError } from '../lib/httpRetry';
+import type { PolicyLocation } from '../lib/stationProfile';
+import { Download, Loader2, RefreshCw, Square, Star } from 'lucide-react';
 
 interface PolicyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  location: {
-    name: string;
-    zoneType: string;
-    violationRate: number;
-    avgNoise: number;
-    limit: number;
-  } | null;
+  location: PolicyLocation | null;
+  providerId: string;
 }
 
-export function PolicyModal({ isOpen, onClose, location }: PolicyModalProps) {
-  const [suggestions, setSuggestions] = useState<string>('');
+export function PolicyModal({ isOpen, onClose, location, providerId }: PolicyModalProps) {
+  const history = useAIHistory('policy', isOpen && location ? location.name : null);
+  const addToHistory = history.add;
+  const [shownId, setShownId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
+  const [streamedText, setStreamedText] = useState('');
+  const [stopped, setStopped] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const [exportError, setExportError] = useState('');
 
-  useEffect(() => {
-    const generateSuggestions = async () => {
-      if (!location) return;
-      
-      setLoading(true);
-      setError('');
-      setSuggestions('');
-      try {
-        const result = await generatePolicySuggestions(location);
-        setSuggestions(result);
-      } catch (err) {
+  const generate = useCallback(async () => {
+    if (!location) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    // A cancelled request must not overwrite the state of the one replacing it
+    const isCurrent = () => controllerRef.current === controller;
+
+    setLoading(true);
+    setError('');
+    setStreamedText('');
+    setStopped(false);
+    try {
+      const result = await generatePolicySuggestions(providerId, location, {
+        signal: controller.signal,
+        onText: (partial) => {
+          if (isCurrent()) setStreamedText(partial);
+        },
+      });
+      if (!isCurrent()) return;
+      const entry = await addToHistory({
+        subject: location.name,
+        task: result.task,
+        prompt: result.prompt,
+        providerId: result.providerId,
+        model: result.model,
+        text: result.text,
+      });
+      setShownId(entry.id);
+    } catch (err) {
+      if (!isCurrent()) return;
+      if (isAbortError(err)) {
+        setStopped(true);
+      } else {
         setError(err instanceof Error ? err.message : 'Failed to generate policy suggestions');
-      } finally {
+      }
+    } finally {
+      if (isCurrent()) {
+        controllerRef.current = null;
         setLoading(false);
       }
-    };
+    }
+  }, [location, providerId, addToHistory]);
+
+  // Generate straight away the first time a location is opened
+  const needsFirstVersion = isOpen && !!location && history.loaded && history.entries.length === 0;
+  useEffect(() => {
+    if (needsFirstVersion) generate();
+  }, [needsFirstVersion, generate]);
 
-    if (isOpen && location) {
-      generateSuggestions();
-    } else {
-      setSuggestions('');
+  // Closing the dialog, or switching location, cancels the request
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+      setLoading(false);
       setError('');
-    }
+      setStreamedText('');
+      setStopped(false);
+      setShownId(null);
+      setExportError('');
+    };
   }, [isOpen, location]);
 
+  const handleStop = () => controllerRef.current?.abort();
+
+  // The chosen version, else the starred one, else the latest
+  const shown = history.entries.find(e => e.id === shownId) ?? history.starred ?? history.entries[0];
+  const showStream = loading || stopped;
+  const streamedActions = partialStringValues(streamedText, 'action');
+
+  const parsed = useMemo(() => {
+    if (!shown || shown.task.kind !== 'policy') return null;
+    const { zoneType } = shown.task.location;
+    try {
+      const { recommendations, errors } = parsePolicyRecommendations(shown.text);
+      return {
+        recommendations: recommendations.map((r): StationRecommendation => ({ ...r, station: shown.subject, zoneType })),
+        errors,
+      };
+    } catch {
+      // Versions saved as free text before recommendations were structured
+      return null;
+    }
+  }, [shown]);
+
+  // Starred (or latest) recommendations of every station, for comparing interventions
+  const exportAllStations = async () => {
+    setExportError('');
+    try {
+      const rows = (await listReportVersions('policy')).flatMap(entry => {
+        if (entry.task.kind !== 'policy') return [];
+        const { zoneType } = entry.task.location;
+        try {
+          return parsePolicyRecommendations(entry.text).recommendations
+            .map((r): StationRecommendation => ({ ...r, station: entry.subject, zoneType }));
+        } catch {
+          return [];
+        }
+      });
+      downloadFile('policy-recommendations-all-stations.csv', recommendationsToCSV(rows), 'text/csv');
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export recommendations');
+    }
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="text-xl">
             AI Policy Suggestions for {location?.name}
@@ -67,7 +167,7 @@ export function PolicyModal({ isOpen, onClose, location }: PolicyModalProps) {
         </DialogHeader>
 
         <div className="mt-4">
-          {loading && (
+          {loading && !streamedText && (
             <div className="flex items-center justify-center py-8">
               <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
               <span className="ml-2 text-slate-600">Generating policy recommendations...</span>
@@ -75,19 +175,91 @@ export function PolicyModal({ isOpen, onClose, location }: PolicyModalProps) {
           )}
 
           {error && (
-            <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-md">
+            <div className="bg-red-50 border border-red-200 text-red-800 p-4 rounded-md mb-4">
               <p className="font-semibold">Error:</p>
               <p className="text-sm">{error}</p>
             </div>
           )}
 
-          {suggestions && !loading && (
+          {showStream && streamedActions.length > 0 && (
             <div className="bg-slate-50 p-6 rounded-lg border border-slate-200">
-              <div className="prose prose-sm max-w-none">
-                <p className="text-slate-700 leading-relaxed whitespace-pre-wrap">{suggestions}</p>
-              </div>
+              <ol className="list-decimal pl-5 space-y-2 text-sm text-slate-600">
+                {streamedActions.map((action, idx) => <li key={idx}>{action}</li>)}
+              </ol>
+              {loading && (
+                <p className="text-xs text-slate-500 mt-4 flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Receiving; cards appear once the recommendations are complete
+                </p>
+              )}
+              {stopped && (
+                <p className="text-xs text-slate-500 mt-4">
+                  Generation stopped; the list may be incomplete and was not saved.
+                </p>
+              )}
             </div>
           )}
+
+          {!showStream && shown && (
+            <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+              {parsed ? (
+                <PolicyRecommendationCards recommendations={parsed.recommendations} exportName={shown.subject} />
+              ) : (
+                <p className="text-slate-700 leading-relaxed whitespace-pre-wrap">{shown.text}</p>
+              )}
+              {parsed && parsed.errors.length > 0 && (
+                <details className="text-xs text-amber-700 mt-3">
+                  <summary>Some recommendations did not match the schema and were left out</summary>
+                  <ul className="list-disc pl-5 mt-1">
+                    {parsed.errors.map((err, idx) => <li key={idx}>{formatRecommendationError(err)}</li>)}
+                  </ul>
+                </details>
+              )}
+              <p className="text-xs text-slate-500 mt-4 flex flex-wrap items-center gap-1">
+                {shown.starred && <Star className="h-3 w-3 fill-amber-400 text-amber-500" aria-label="Starred for reports" />}
+                Generated by {providerLabel(shown.providerId)} · {shown.model} · {formatVersionTime(shown.createdAt)}
+              </p>
+            </div>
+          )}
+
+          {exportError && <p className="text-xs text-red-700 mt-2">{exportError}</p>}
+          <div className="flex justify-end gap-2 mt-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={exportAllStations}
+              disabled={loading}
+              title="Starred (or latest) recommendations of every station, for comparison"
+            >
+              <Download className="h-4 w-4" />
+              All stations (CSV)
+            </Button>
+            {loading ? (
+              <Button variant="outline" size="sm" onClick={handleStop}>
+                <Square className="h-4 w-4" />
+                Stop
+              </Button>
+            ) : (
+              history.loaded && (
+                <Button variant="outline" size="sm" onClick={generate}>
+                  <RefreshCw className="h-4 w-4" />
+                  Regenerate
+                </Button>
+              )
+            )}
+          </div>
+
+          <AIHistory
+            entries={history.entries}
+            shownId={showStream ? undefined : shown?.id}
+            onShow={entry => {
+              setStopped(false);
+              setShownId(entry.id);
+            }}
+            onToggleStar={history.toggleStar}
+            onDelete={history.remove}
+            error={history.error}
+          />
         </div>
       </DialogContent>
     </Dialog>
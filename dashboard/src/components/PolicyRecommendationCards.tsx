@@ -0,0 +1,144 @@
+/**
+ * Policy recommendations as cards, with filtering, sorting and export
+ */
+import { useState } from 'react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { downloadFile, slugify } from '../lib/download';
+import {
+  COST_TIERS,
+  POLICY_CATEGORIES,
+  RECOMMENDATION_SORTS,
+  recommendationsToCSV,
+  sortRecommendations,
+  TIMEFRAME_LABELS,
+  type CostTier,
+  type PolicyCategory,
+  type RecommendationSort,
+  type StationRecommendation,
+} from '../lib/policyRecommendations';
+import { Building2, Clock, Download, IndianRupee, TrendingDown } from 'lucide-react';
+
+interface PolicyRecommendationCardsProps {
+  recommendations: StationRecommendation[];
+  /** Used in export file names */
+  exportName: string;
+}
+
+const CATEGORY_CLASSES: Record<PolicyCategory, string> = {
+  traffic: 'bg-blue-50 text-blue-800 border-blue-200',
+  construction: 'bg-amber-50 text-amber-800 border-amber-200',
+  enforcement: 'bg-red-50 text-red-800 border-red-200',
+  zoning: 'bg-purple-50 text-purple-800 border-purple-200',
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export function PolicyRecommendationCards({ recommendations, exportName }: PolicyRecommendationCardsProps) {
+  const [category, setCategory] = useState<PolicyCategory | 'all'>('all');
+  const [costTier, setCostTier] = useState<CostTier | 'all'>('all');
+  const [sort, setSort] = useState<RecommendationSort>('reduction');
+
+  const shown = sortRecommendations(
+    recommendations.filter(r =>
+      (category === 'all' || r.category === category) && (costTier === 'all' || r.costTier === costTier)
+    ),
+    sort
+  );
+
+  const exportAs = (format: 'csv' | 'json') => {
+    const filename = `policy-recommendations-${slugify(exportName)}.${format}`;
+    if (format === 'csv') {
+      downloadFile(filename, recommendationsToCSV(shown), 'text/csv');
+    } else {
+      downloadFile(filename, JSON.stringify(shown, null, 2), 'application/json');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        <label className="flex items-center gap-1">
+          Category:
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as PolicyCategory | 'all')}
+            className="p-1 border rounded-md bg-background"
+          >
+            <option value="all">All</option>
+            {POLICY_CATEGORIES.map(c => <option key={c} value={c}>{capitalize(c)}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Cost:
+          <select
+            value={costTier}
+            onChange={(e) => setCostTier(e.target.value as CostTier | 'all')}
+            className="p-1 border rounded-md bg-background"
+          >
+            <option value="all">All</option>
+            {COST_TIERS.map(c => <option key={c} value={c}>{capitalize(c)}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          Sort:
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as RecommendationSort)}
+            className="p-1 border rounded-md bg-background"
+          >
+            {(Object.keys(RECOMMENDATION_SORTS) as RecommendationSort[]).map(key => (
+              <option key={key} value={key}>{RECOMMENDATION_SORTS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="ml-auto flex gap-1">
+          <Button variant="outline" size="sm" onClick={() => exportAs('csv')} disabled={shown.length === 0}>
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => exportAs('json')} disabled={shown.length === 0}>
+            <Download className="h-4 w-4" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-slate-500">No recommendations match these filters.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {shown.map((r, idx) => (
+            <div key={idx} className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <Badge variant="outline" className={CATEGORY_CLASSES[r.category]}>{capitalize(r.category)}</Badge>
+                <span className="flex items-center gap-1 text-sm font-semibold text-green-700">
+                  <TrendingDown className="h-4 w-4" />
+                  −{r.expectedReductionDb} dB
+                </span>
+              </div>
+              <p className="text-sm text-slate-800 leading-relaxed mb-3">{r.action}</p>
+              <dl className="grid grid-cols-1 gap-1 text-xs text-slate-600">
+                <div className="flex items-center gap-1">
+                  <Building2 className="h-3 w-3" />
+                  <dt className="sr-only">Agency</dt>
+                  <dd>{r.agency}</dd>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  <dt className="sr-only">Timeframe</dt>
+                  <dd>{TIMEFRAME_LABELS[r.timeframe]}</dd>
+                </div>
+                <div className="flex items-center gap-1">
+                  <IndianRupee className="h-3 w-3" />
+                  <dt className="sr-only">Cost</dt>
+                  <dd>{capitalize(r.costTier)} cost</dd>
+                </div>
+              </dl>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,40 @@
-import React, { useState, useEffect } from 'react';
-import { MapContainer, TileLayer, CircleMarker, Popup, useMap } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MapContainer, CircleMarker, Popup, useMap } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Map, TrendingUp, Clock, Calendar, Activity, Loader2 } from 'lucide-react';
-
-// Define the structure of the data we expect from the backend API
-interface MapDataPoint {
-  location: string;
-  latitude: number;
-  longitude: number;
-  predicted_noise: number;
-  zone_type: string;
-  noise_limit: number;
-  is_violation: boolean;
-  confidence: number;
-}
-
-// Helper function to determine the color of the circle based on noise level
-const getColor = (noise: number): string => {
-  if (noise > 80) return '#ae017e';
-  if (noise > 75) return '#f768a1';
-  if (noise > 65) return '#fbb4b9';
-  return '#feebe2'; // Default color for lower noise levels
-};
+import { Map, TrendingUp, Clock, Calendar, Activity, Loader2, Server, Dices, Link } from 'lucide-react';
+import { getStation, getStationName } from '../lib/stations';
+import { ForecastTimeline } from './ForecastTimeline';
+import { InterventionSimulator } from './InterventionSimulator';
+import { ScenarioComparison } from './ScenarioComparison';
+import { LimitProfileSelector } from './LimitProfileSelector';
+import { Basemap } from './map/Basemap';
+import { InterpolationLayer } from './map/InterpolationLayer';
+import { PointProbe } from './map/PointProbe';
+import { SurfaceLegend } from './map/SurfaceLegend';
+import type { SamplePoint } from '../lib/interpolation';
+import { DELHI_CENTER, DELHI_ZOOM, getNoiseColor, getNoiseRadius } from '../lib/mapStyles';
+import { buildHistoricalBaseline, NOISE_LAG_OPTIONS, withLimitProfile, type MapDataPoint } from '../lib/predictionModel';
+import { DAY_NAMES, type HourlyStatistics, type StationRanking } from '../lib/dataUtils';
+import { generateSeed, MAX_SEED } from '../lib/random';
+import { DEFAULT_TILE_SOURCE_ID, TILE_SOURCES } from '../lib/tileSources';
+import { getViewState, type PredictionShareState, type SurfaceSetting } from '../lib/viewState';
+import { useViewState } from '../lib/useViewState';
+import {
+  DEFAULT_PROVIDER_ID,
+  PREDICTION_PROVIDERS,
+  getPredictionProvider,
+  isAbortError,
+} from '../lib/predictionProviders';
 
-// Helper function to determine the radius of the circle
-const getRadius = (noise: number): number => {
-  if (noise > 80) return 35;
-  if (noise > 75) return 30;
-  if (noise > 65) return 25;
-  return 20;
+// Describe the previous-hour condition selected in the controls
+const describeNoiseLag = (noiseLag: number): string => {
+  if (noiseLag <= 55) return 'quiet';
+  if (noiseLag <= 65) return 'normal';
+  return 'loud';
 };
 
 // Component to force map invalidation when data changes
@@ -76,121 +78,144 @@ const LoadingProgress: React.FC<{ stage: string; progress: number }> = ({ stage,
   );
 };
 
-const PredictiveMapDashboard: React.FC = () => {
+interface PredictiveMapDashboardProps {
+  /** Historical tables used to score prediction confidence */
+  stationRankings: StationRanking[];
+  hourlyStatistics: HourlyStatistics[];
+  /** True once the tables have finished loading (successfully or not) */
+  tablesLoaded: boolean;
+  /** Opens the station detail panel from a map popup */
+  onStationSelect?: (stationId: string) => void;
+}
+
+const PredictiveMapDashboard: React.FC<PredictiveMapDashboardProps> = ({ stationRankings, hourlyStatistics, tablesLoaded, onStationSelect }) => {
+  // Initial parameters may come from a shared link
+  const [initialState] = useState(() => getViewState().prediction);
+  // Map dialog and overlay settings live in the URL
+  const [view, updateView] = useViewState();
+
   // State for user-configurable parameters
-  const [hour, setHour] = useState<number>(17);
-  const [dayOfWeek, setDayOfWeek] = useState<number>(1);
-  const [noiseLag, setNoiseLag] = useState<number>(65);
+  const [hour, setHour] = useState<number>(initialState.hour ?? 17);
+  const [dayOfWeek, setDayOfWeek] = useState<number>(initialState.dayOfWeek ?? 1);
+  const [noiseLag, setNoiseLag] = useState<number>(initialState.noiseLag ?? 65);
+  const [seed, setSeed] = useState<number>(initialState.seed ?? generateSeed());
 
   // State for map data and UI
-  const [mapData, setMapData] = useState<MapDataPoint[]>([]);
+  const [predictedPoints, setPredictedPoints] = useState<MapDataPoint[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [loadingStage, setLoadingStage] = useState<string>('');
   const [loadingProgress, setLoadingProgress] = useState<number>(0);
   const [error, setError] = useState<string>('');
   const [updateKey, setUpdateKey] = useState<number>(0); // Key to force re-render
-  const [isMapOpen, setIsMapOpen] = useState<boolean>(false);
-
-  const dayNames = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-
-  // Simulate realistic loading stages
-  const simulateLoading = async (): Promise<void> => {
-    const stages = [
-      { name: 'Initializing model...', duration: 800, progress: 20 },
-      { name: 'Loading features...', duration: 600, progress: 40 },
-      { name: 'Processing temporal data...', duration: 700, progress: 60 },
-      { name: 'Computing predictions...', duration: 900, progress: 80 },
-      { name: 'Finalizing results...', duration: 500, progress: 100 },
-    ];
-
-    for (const stage of stages) {
-      setLoadingStage(stage.name);
-      setLoadingProgress(stage.progress);
-      await new Promise(resolve => setTimeout(resolve, stage.duration));
-    }
-  };
+  const isMapOpen = view.mapOpen;
+  const setIsMapOpen = (mapOpen: boolean) => updateView({ mapOpen }, { push: true });
+  const [providerId, setProviderId] = useState<string>(
+    PREDICTION_PROVIDERS.some(p => p.id === initialState.provider) ? initialState.provider! : DEFAULT_PROVIDER_ID
+  );
+  // Parameters that produced the predictions currently shown
+  const [lastRun, setLastRun] = useState<PredictionShareState | null>(null);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const requestRef = useRef<AbortController | null>(null);
+  const initialFetchDone = useRef<boolean>(false);
+
+  // Violation status follows the selected limit profile without another run
+  const limits = view.limits;
+  const mapData = useMemo(
+    () => lastRun ? predictedPoints.map(point => withLimitProfile(point, lastRun.hour, limits)) : predictedPoints,
+    [predictedPoints, lastRun, limits]
+  );
 
-  // Generate static dummy predictions (no backend needed)
-  const generateStaticPredictions = (hour: number, dayOfWeek: number, noiseLag: number): MapDataPoint[] => {
-    const locations = [
-      { name: 'nsit', lat: 28.61, lon: 77.04, zone: 'Silence Zone', baseNoise: 65 },
-      { name: 'ito', lat: 28.631, lon: 77.248, zone: 'Commercial', baseNoise: 76 },
-      { name: 'punjabi', lat: 28.66, lon: 77.12, zone: 'Residential', baseNoise: 72 },
-      { name: 'isbt', lat: 28.667, lon: 77.231, zone: 'Commercial', baseNoise: 75 },
-      { name: 'mandir_marg', lat: 28.628, lon: 77.203, zone: 'Commercial', baseNoise: 68 },
-      { name: 'civil_lines', lat: 28.678, lon: 77.222, zone: 'Residential', baseNoise: 70 },
-      { name: 'CPCBHQ', lat: 28.59, lon: 77.25, zone: 'Commercial', baseNoise: 66 },
-      { name: 'Dilshad', lat: 28.68, lon: 77.31, zone: 'Residential', baseNoise: 64 },
-      { name: 'centralschool', lat: 28.53, lon: 77.25, zone: 'Silence Zone', baseNoise: 62 },
-    ];
-
-    const noiseLimits: Record<string, { day: number; night: number }> = {
-      'Industrial': { day: 75, night: 70 },
-      'Commercial': { day: 65, night: 55 },
-      'Residential': { day: 55, night: 45 },
-      'Silence Zone': { day: 50, night: 40 },
-    };
-
-    return locations.map(loc => {
-      // Time of day factor
-      let timeFactor = 0;
-      if (hour >= 8 && hour <= 10) timeFactor = 4.5;
-      else if (hour >= 17 && hour <= 20) timeFactor = 6.0;
-      else if (hour >= 0 && hour <= 5) timeFactor = -8.0;
-
-      // Day of week factor
-      const dayFactor = dayOfWeek >= 5 ? -3.5 : 0;
-
-      // Calculate noise
-      const environmentalNoise = loc.baseNoise + timeFactor + dayFactor;
-      const predictedNoise = (0.6 * noiseLag) + (0.4 * environmentalNoise) + (Math.random() * 3 - 1.5);
-      
-      // Determine limit
-      const isNight = hour >= 22 || hour < 6;
-      const limit = noiseLimits[loc.zone][isNight ? 'night' : 'day'];
-      
-      return {
-        location: loc.name,
-        latitude: loc.lat,
-        longitude: loc.lon,
-        predicted_noise: parseFloat(predictedNoise.toFixed(2)),
-        zone_type: loc.zone,
-        noise_limit: limit,
-        is_violation: predictedNoise > limit,
-        confidence: parseFloat((0.75 + Math.random() * 0.2).toFixed(2)),
-      };
+  // Interpolated surface overlay on the map
+  const surfaceMode = view.surface;
+  const surfaceSource = view.surfaceSource;
+  const tileSourceId = TILE_SOURCES.some(t => t.id === view.basemap) ? view.basemap! : DEFAULT_TILE_SOURCE_ID;
+  const setSurfaceMode = (surface: SurfaceSetting) => updateView({ surface });
+  const setSurfaceSource = (surfaceSource: 'predictions' | 'historical') => updateView({ surfaceSource });
+  const setTileSourceId = (id: string) => updateView({ basemap: id === DEFAULT_TILE_SOURCE_ID ? undefined : id });
+
+  const surfaceSamples = useMemo<SamplePoint[]>(() => {
+    if (surfaceSource === 'predictions') {
+      return mapData.map(d => ({ latitude: d.latitude, longitude: d.longitude, value: d.predicted_noise }));
+    }
+    return stationRankings.flatMap(row => {
+      const station = getStation(row.Location);
+      return station ? [{ latitude: station.latitude, longitude: station.longitude, value: row.Average_LAeq_dBA }] : [];
     });
-  };
+  }, [surfaceSource, mapData, stationRankings]);
 
-  // Function to fetch predictions (now uses static data)
+  const baseline = useMemo(
+    () => buildHistoricalBaseline(stationRankings, hourlyStatistics),
+    [stationRankings, hourlyStatistics]
+  );
+
+  // Run the selected provider, reporting its real request progress
   const fetchPredictions = async (): Promise<void> => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setIsLoading(true);
     setError('');
+    setLoadingStage('Starting...');
     setLoadingProgress(0);
     
+    const runState: PredictionShareState = { hour, dayOfWeek, noiseLag, seed, provider: providerId };
+
     try {
-      // Just run the loading simulation
-      await simulateLoading();
-      
-      // Generate static predictions
-      const predictions = generateStaticPredictions(hour, dayOfWeek, noiseLag);
-      setMapData(predictions);
+      const provider = getPredictionProvider(providerId);
+      const predictions = await provider.predictMap(
+        { hour, dayOfWeek, noiseLag, seed },
+        {
+          signal: controller.signal,
+          baseline,
+          limits,
+          onProgress: ({ stage, progress }) => {
+            setLoadingStage(stage);
+            setLoadingProgress(progress);
+          },
+        }
+      );
+      setPredictedPoints(predictions);
+      setLastRun(runState);
       setUpdateKey(prev => prev + 1); // Force map update
+      // Keep the URL in sync so reloading reproduces the same map
+      updateView({ prediction: runState });
     } catch (err) {
-      setError('Failed to generate predictions. Please try again.');
+      if (isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'Failed to generate predictions. Please try again.');
       console.error(err);
     } finally {
-      setIsLoading(false);
-      setLoadingStage('');
-      setLoadingProgress(0);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsLoading(false);
+        setLoadingStage('');
+        setLoadingProgress(0);
+      }
     }
   };
 
-  // Fetch initial data on component mount
+  // Cancel any in-flight request on unmount
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Fetch initial data once the historical tables are available, so the
+  // first map is scored the same way as every later run
   useEffect(() => {
+    if (!tablesLoaded || initialFetchDone.current) return;
+    initialFetchDone.current = true;
     fetchPredictions();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tablesLoaded]);
+
+  const copyShareLink = async () => {
+    if (!lastRun) return;
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy link:', err);
+    }
+  };
 
   const avgNoise = mapData.length > 0 ? mapData.reduce((sum, d) => sum + d.predicted_noise, 0) / mapData.length : 0;
   const violationCount = mapData.filter(d => d.is_violation).length;
@@ -198,6 +223,14 @@ const PredictiveMapDashboard: React.FC = () => {
 
   return (
     <div className="space-y-6 p-6">
+      {/* Limits the violation status is judged against */}
+      <LimitProfileSelector
+        limits={limits}
+        onChange={(next) => updateView({ limits: next })}
+        note="Predictions have no date, so exemptions don't apply to them. Saved scenarios keep the limits they were run with."
+        className=""
+      />
+
       {/* Control Panel */}
       <Card>
         <CardHeader>
@@ -208,7 +241,7 @@ const PredictiveMapDashboard: React.FC = () => {
           <CardDescription>Configure prediction parameters to generate noise forecasts</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
             {/* Time of Day */}
             <div className="space-y-2">
               <label className="text-sm font-medium flex items-center gap-2">
@@ -238,7 +271,7 @@ const PredictiveMapDashboard: React.FC = () => {
                 className="w-full p-2 border rounded-md bg-background"
                 disabled={isLoading}
               >
-                {dayNames.map((day, idx) => (
+                {DAY_NAMES.map((day, idx) => (
                   <option key={idx} value={idx}>{day}</option>
                 ))}
               </select>
@@ -256,11 +289,57 @@ const PredictiveMapDashboard: React.FC = () => {
                 className="w-full p-2 border rounded-md bg-background"
                 disabled={isLoading}
               >
-                <option value={55}>Quiet</option>
-                <option value={65}>Normal</option>
-                <option value={75}>Loud</option>
+                {NOISE_LAG_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
               </select>
             </div>
+
+            {/* Prediction Provider */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Server className="h-4 w-4" />
+                Prediction Source
+              </label>
+              <select 
+                value={providerId} 
+                onChange={(e) => setProviderId(e.target.value)} 
+                className="w-full p-2 border rounded-md bg-background"
+                disabled={isLoading}
+                title={getPredictionProvider(providerId).description}
+              >
+                {PREDICTION_PROVIDERS.map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Random seed */}
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="text-sm font-medium flex items-center gap-2" htmlFor="prediction-seed">
+              <Dices className="h-4 w-4" />
+              Seed
+            </label>
+            <input
+              id="prediction-seed"
+              type="number"
+              min={0}
+              max={MAX_SEED}
+              value={seed}
+              // Seeds outside the range a shared link reads back are clamped
+              onChange={(e) => setSeed(Math.min(MAX_SEED, Math.max(0, parseInt(e.target.value) || 0)))}
+              className="w-32 p-2 border rounded-md bg-background"
+              disabled={isLoading}
+            />
+            <Button variant="outline" size="sm" onClick={() => setSeed(generateSeed())} disabled={isLoading}>
+              New seed
+            </Button>
+            <Button variant="outline" size="sm" onClick={copyShareLink} disabled={!lastRun || isLoading} className="flex items-center gap-2">
+              <Link className="h-4 w-4" />
+              {linkCopied ? 'Link copied' : 'Copy link'}
+            </Button>
+            <span className="text-xs text-muted-foreground">The same seed and parameters always reproduce the same map.</span>
           </div>
 
           <div className="flex gap-3">
@@ -279,7 +358,7 @@ const PredictiveMapDashboard: React.FC = () => {
               )}
             </Button>
 
-            <Dialog open={isMapOpen} onOpenChange={setIsMapOpen}>
+            <Dialog open={isMapOpen && mapData.length > 0} onOpenChange={setIsMapOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline" disabled={mapData.length === 0 || isLoading} className="flex items-center gap-2">
                   <Map className="h-4 w-4" />
@@ -290,38 +369,81 @@ const PredictiveMapDashboard: React.FC = () => {
                 <DialogHeader className="px-6 pt-6 pb-2">
                   <DialogTitle>Predictive Noise Map</DialogTitle>
                   <DialogDescription>
-                    Interactive map showing predicted noise levels for {dayNames[dayOfWeek]} at {hour}:00
+                    Interactive map showing predicted noise levels for {DAY_NAMES[lastRun?.dayOfWeek ?? dayOfWeek]} at {lastRun?.hour ?? hour}:00 (seed {lastRun?.seed ?? seed})
                   </DialogDescription>
                 </DialogHeader>
-                <div className="h-[calc(90vh-80px)] w-full px-6 pb-6">
-                  <div className="h-full w-full rounded-md overflow-hidden border-2 border-primary/20">
+                <div className="flex flex-wrap items-center gap-4 px-6 text-sm">
+                  <label className="flex items-center gap-2">
+                    Basemap:
+                    <select
+                      value={tileSourceId}
+                      onChange={(e) => setTileSourceId(e.target.value)}
+                      className="p-1 border rounded-md bg-background"
+                    >
+                      {TILE_SOURCES.map(source => (
+                        <option key={source.id} value={source.id}>{source.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Interpolated surface:
+                    <select
+                      value={surfaceMode}
+                      onChange={(e) => setSurfaceMode(e.target.value as SurfaceSetting)}
+                      className="p-1 border rounded-md bg-background"
+                    >
+                      <option value="off">Off</option>
+                      <option value="raster">Raster (IDW)</option>
+                      <option value="hexbin">Hexbin (IDW)</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Source:
+                    <select
+                      value={surfaceSource}
+                      onChange={(e) => setSurfaceSource(e.target.value as 'predictions' | 'historical')}
+                      className="p-1 border rounded-md bg-background"
+                    >
+                      <option value="predictions">Current predictions</option>
+                      <option value="historical" disabled={stationRankings.length === 0}>Historical station averages</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="h-[calc(90vh-120px)] w-full px-6 pb-6">
+                  <div className="relative h-full w-full rounded-md overflow-hidden border-2 border-primary/20">
                     <MapContainer 
                       key={updateKey}
-                      center={[28.6139, 77.2090]} 
-                      zoom={11} 
+                      center={DELHI_CENTER} 
+                      zoom={DELHI_ZOOM} 
                       style={{ height: '100%', width: '100%' }}
                     >
-                    <TileLayer
-                      url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                      attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-                    />
+                    <Basemap sourceId={tileSourceId} />
                     
                     <MapUpdater mapData={mapData} />
+
+                    {surfaceMode !== 'off' && (
+                      <InterpolationLayer samples={surfaceSamples} mode={surfaceMode} />
+                    )}
+                    <PointProbe
+                      samples={surfaceSamples}
+                      sourceLabel={surfaceSource === 'predictions' ? 'predictions' : 'historical averages'}
+                    />
                     
                     {mapData.map((spot) => (
                       <CircleMarker
                         key={`${spot.location}-${updateKey}`}
                         center={[spot.latitude, spot.longitude]}
                         pathOptions={{
-                          color: getColor(spot.predicted_noise),
-                          fillColor: getColor(spot.predicted_noise),
+                          color: getNoiseColor(spot.predicted_noise),
+                          fillColor: getNoiseColor(spot.predicted_noise),
                           fillOpacity: 0.8
                         }}
-                        radius={getRadius(spot.predicted_noise)}
+                        radius={getNoiseRadius(spot.predicted_noise)}
+                        bubblingMouseEvents={false}
                       >
                         <Popup>
                           <div className="space-y-1">
-                            <strong className="text-lg">{spot.location.toUpperCase()}</strong>
+                            <strong className="text-lg">{getStationName(spot.location)}</strong>
                             <p><strong>Predicted Noise:</strong> {spot.predicted_noise.toFixed(2)} dBA</p>
                             <p><strong>Zone Type:</strong> {spot.zone_type}</p>
                             <p><strong>Limit:</strong> {spot.noise_limit} dBA</p>
@@ -329,11 +451,29 @@ const PredictiveMapDashboard: React.FC = () => {
                               {spot.is_violation ? 'VIOLATION' : 'Compliant'}
                             </span></p>
                             <p><strong>Confidence:</strong> {(spot.confidence * 100).toFixed(0)}%</p>
+                            {onStationSelect && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="mt-1"
+                                onClick={() => {
+                                  updateView({ mapOpen: false });
+                                  onStationSelect(spot.location);
+                                }}
+                              >
+                                Station details
+                              </Button>
+                            )}
                           </div>
                         </Popup>
                       </CircleMarker>
                     ))}
                   </MapContainer>
+                  {surfaceMode !== 'off' && (
+                    <SurfaceLegend
+                      title={surfaceSource === 'predictions' ? 'Interpolated predicted noise' : 'Interpolated historical average'}
+                    />
+                  )}
                   </div>
                 </div>
               </DialogContent>
@@ -399,21 +539,21 @@ const PredictiveMapDashboard: React.FC = () => {
           <CardHeader>
             <CardTitle>Predicted Noise Levels</CardTitle>
             <CardDescription>
-              Predictions for {dayNames[dayOfWeek]} at {hour}:00 with {noiseLag === 55 ? 'quiet' : noiseLag === 65 ? 'normal' : 'loud'} previous conditions
+              Predictions for {DAY_NAMES[lastRun?.dayOfWeek ?? dayOfWeek]} at {lastRun?.hour ?? hour}:00 with {describeNoiseLag(lastRun?.noiseLag ?? noiseLag)} previous conditions (seed {lastRun?.seed ?? seed})
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {mapData.map((location, idx) => (
-                <Card key={idx} className="border-l-4" style={{ borderLeftColor: getColor(location.predicted_noise) }}>
+                <Card key={idx} className="border-l-4" style={{ borderLeftColor: getNoiseColor(location.predicted_noise) }}>
                   <CardContent className="pt-6">
                     <div className="flex justify-between items-start mb-2">
-                      <h3 className="font-semibold text-lg">{location.location.toUpperCase()}</h3>
+                      <h3 className="font-semibold text-lg">{getStationName(location.location)}</h3>
                       <Badge variant={location.is_violation ? 'destructive' : 'default'}>
                         {location.is_violation ? 'Violation' : 'Compliant'}
                       </Badge>
                     </div>
-                    <div className="text-3xl font-bold mb-2" style={{ color: getColor(location.predicted_noise) }}>
+                    <div className="text-3xl font-bold mb-2" style={{ color: getNoiseColor(location.predicted_noise) }}>
                       {location.predicted_noise.toFixed(1)} dBA
                     </div>
                     <div className="space-y-1 text-sm">
@@ -437,6 +577,36 @@ const PredictiveMapDashboard: React.FC = () => {
           </CardContent>
         </Card>
       )}
+
+      {/* What-if interventions on the current run; kept mounted across runs */}
+      {mapData.length > 0 && (
+        <InterventionSimulator
+          points={mapData}
+          hour={lastRun?.hour ?? hour}
+          tileSourceId={tileSourceId}
+          onStationSelect={onStationSelect}
+        />
+      )}
+
+      {/* Saved runs compared side by side */}
+      <ScenarioComparison
+        lastRun={lastRun}
+        points={mapData}
+        tileSourceId={tileSourceId}
+        onStationSelect={onStationSelect}
+      />
+
+      {/* Forecast Timeline */}
+      <ForecastTimeline
+        providerId={providerId}
+        dayOfWeek={dayOfWeek}
+        noiseLag={noiseLag}
+        seed={seed}
+        baseline={baseline}
+        limits={limits}
+        tileSourceId={tileSourceId}
+        onStationSelect={onStationSelect}
+      />
     </div>
   );
 };
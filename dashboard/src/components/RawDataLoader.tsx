@@ -0,0 +1,99 @@
+/**
+ * Load raw readings (CSV or Parquet) and recompute the analysis tables from them
+ */
+import { useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { FileUp, Loader2, RotateCcw } from 'lucide-react';
+import { READINGS_FILE_TYPES, type IngestProgress, type IngestResult } from '../lib/readingsIngest';
+
+interface RawDataLoaderProps {
+  /** The result the tables currently come from; null while the published tables are shown */
+  active: IngestResult | null;
+  progress: IngestProgress | null;
+  error: string;
+  onLoad: (files: File[]) => void;
+  onReset: () => void;
+}
+
+// Reading times are wall-clock time stored as UTC
+const formatReadingDate = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+const describeProgress = ({ file, files, filename }: IngestProgress) =>
+  filename ? `Reading ${filename} (${file + 1} of ${files})…` : 'Computing tables…';
+
+export function RawDataLoader({ active, progress, error, onLoad, onReset }: RawDataLoaderProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const loadFiles = (fileList: FileList | null) => {
+    onLoad(fileList ? Array.from(fileList) : []);
+    // Allow the same files to be picked again
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const summary = active?.summary;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileUp className="h-5 w-5" />
+          Raw Readings
+        </CardTitle>
+        <CardDescription>
+          Recompute every table from station, timestamp and LAeq readings (CSV or Parquet) with the notebook's definitions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={inputRef}
+            type="file"
+            accept={READINGS_FILE_TYPES}
+            multiple
+            onChange={(e) => loadFiles(e.target.files)}
+            disabled={progress !== null}
+            className="text-sm"
+            aria-label="Raw readings files"
+          />
+          {active && (
+            <Button variant="outline" size="sm" onClick={onReset} disabled={progress !== null}>
+              <RotateCcw className="h-4 w-4" />
+              Use published tables
+            </Button>
+          )}
+        </div>
+
+        {progress && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {describeProgress(progress)}
+          </p>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {summary && (
+          <div className="text-sm bg-blue-50 border border-blue-200 text-blue-900 p-3 rounded-md space-y-1">
+            <p className="font-semibold">
+              Tables computed from {summary.used.toLocaleString()} readings in {active.files.length} file{active.files.length === 1 ? '' : 's'}
+              {summary.firstReading !== undefined && summary.lastReading !== undefined &&
+                `, ${formatReadingDate(summary.firstReading)} – ${formatReadingDate(summary.lastReading)}`}
+            </p>
+            <p>
+              Dropped {summary.missingOrZero.toLocaleString()} missing or zero levels and {summary.duplicates.toLocaleString()} duplicate readings
+              {active.skippedRows > 0 && `; skipped ${active.skippedRows.toLocaleString()} rows without a station or timestamp`}
+              {summary.filteredOut > 0 && `; ${summary.filteredOut.toLocaleString()} readings are outside the filter`}.
+            </p>
+            {summary.unregisteredStations.length > 0 && (
+              <p>
+                Not in the station registry, so only counted in the hourly statistics: {summary.unregisteredStations.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
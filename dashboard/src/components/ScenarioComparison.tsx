@@ -0,0 +1,203 @@
+/**
+ * Saved prediction scenarios: synced side-by-side maps and a per-station delta table
+ */
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Columns2, Save, Trash2 } from 'lucide-react';
+import { PredictionMap } from './map/PredictionMap';
+import { getStationName } from '../lib/stations';
+import { DELHI_CENTER, DELHI_ZOOM, type MapView } from '../lib/mapStyles';
+import type { MapDataPoint } from '../lib/predictionModel';
+import type { PredictionShareState } from '../lib/viewState';
+import { formatVersionTime } from '../lib/aiHistory';
+import { PREDICTION_PROVIDERS } from '../lib/predictionProviders';
+import {
+  compareScenarios,
+  createScenario,
+  defaultScenarioName,
+  MAX_COMPARED_SCENARIOS,
+  type PredictionScenario,
+} from '../lib/scenarios';
+import { useScenarios } from '../lib/useScenarios';
+
+interface ScenarioComparisonProps {
+  /** Parameters and predictions of the current run, if any */
+  lastRun: PredictionShareState | null;
+  points: MapDataPoint[];
+  tileSourceId: string;
+  onStationSelect?: (stationId: string) => void;
+}
+
+const MAP_GRID_CLASSES: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-2 2xl:grid-cols-4',
+};
+
+// Stored provider ids may outlive their provider
+const providerLabel = (id: string) => PREDICTION_PROVIDERS.find(p => p.id === id)?.label ?? id;
+
+const formatDelta = (deltaDb: number) => `${deltaDb > 0 ? '+' : ''}${deltaDb.toFixed(1)}`;
+
+export function ScenarioComparison({ lastRun, points, tileSourceId, onStationSelect }: ScenarioComparisonProps) {
+  const { scenarios, error, add, remove } = useScenarios();
+  const [name, setName] = useState<string>('');
+  // Ticked scenarios in the order they were ticked; the first is the reference
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [view, setView] = useState<MapView>({ center: DELHI_CENTER, zoom: DELHI_ZOOM });
+
+  const selected = useMemo(
+    () => selectedIds.flatMap(id => scenarios.filter(s => s.id === id)),
+    [selectedIds, scenarios]
+  );
+  const rows = useMemo(() => compareScenarios(selected), [selected]);
+
+  const saveCurrent = () => {
+    if (!lastRun) return;
+    add(createScenario(name, lastRun, points));
+    setName('');
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-MAX_COMPARED_SCENARIOS));
+
+  const removeScenario = (scenario: PredictionScenario) => {
+    setSelectedIds(prev => prev.filter(id => id !== scenario.id));
+    remove(scenario);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Columns2 className="h-5 w-5" />
+          Scenario Comparison
+        </CardTitle>
+        <CardDescription>
+          Save prediction runs as named scenarios and compare two to four of them side by side
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={lastRun ? defaultScenarioName(lastRun) : 'Scenario name'}
+            className="flex-1 min-w-48 p-2 border rounded-md bg-background"
+            aria-label="Scenario name"
+            disabled={!lastRun}
+          />
+          <Button onClick={saveCurrent} disabled={!lastRun || points.length === 0} size="sm">
+            <Save className="h-4 w-4" />
+            Save current run
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-amber-700">{error}</p>}
+
+        {scenarios.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground mb-2">
+              Tick up to {MAX_COMPARED_SCENARIOS} scenarios to compare. The first one ticked is the reference for the differences.
+            </p>
+            <ul className="divide-y border rounded-md">
+              {scenarios.map(scenario => (
+                <li key={scenario.id} className="flex flex-wrap items-center gap-3 px-4 py-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(scenario.id)}
+                    onChange={() => toggleSelected(scenario.id)}
+                    aria-label={`Compare ${scenario.name}`}
+                  />
+                  <span className="font-medium">{scenario.name}</span>
+                  {selectedIds[0] === scenario.id && <span className="text-xs text-primary">Reference</span>}
+                  <span className="text-xs text-muted-foreground">
+                    {defaultScenarioName(scenario.params)} · lag {scenario.params.noiseLag} dBA · {providerLabel(scenario.params.provider)} · saved {formatVersionTime(scenario.createdAt)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    className="ml-auto"
+                    onClick={() => removeScenario(scenario)}
+                    title="Delete this scenario"
+                  >
+                    <Trash2 className="h-4 w-4 text-slate-400" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selected.length >= 2 && (
+          <>
+            {/* Synced maps */}
+            <div className={`grid grid-cols-1 gap-4 ${MAP_GRID_CLASSES[selected.length]}`}>
+              {selected.map(scenario => (
+                <PredictionMap
+                  key={scenario.id}
+                  title={scenario.name}
+                  points={scenario.points}
+                  tileSourceId={tileSourceId}
+                  onStationSelect={onStationSelect}
+                  view={view}
+                  onViewChange={setView}
+                />
+              ))}
+            </div>
+
+            {/* Per-station differences from the reference */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Station</th>
+                    {selected.map((scenario, index) => (
+                      <th key={scenario.id} className="py-2 px-2 font-medium text-right">
+                        {scenario.name}
+                        <span className="block text-xs font-normal">{index === 0 ? 'dBA (reference)' : 'dBA (Δ dB)'}</span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.location} className="border-b last:border-0">
+                      <td className="py-2">{getStationName(row.location)}</td>
+                      {row.cells.map((cell, index) => (
+                        <td key={index} className="py-2 px-2 text-right">
+                          {cell ? (
+                            <>
+                              <span className={cell.isViolation ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                                {cell.noise.toFixed(1)}
+                              </span>
+                              {cell.deltaDb !== undefined && (
+                                <span className="text-muted-foreground"> ({formatDelta(cell.deltaDb)})</span>
+                              )}
+                              {cell.statusChanged && (
+                                <span className="block text-xs">
+                                  {cell.isViolation ? 'Now in violation' : 'Now compliant'}
+                                </span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Levels in red are violations of the station's limit at that scenario's hour.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
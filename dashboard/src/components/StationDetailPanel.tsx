@@ -0,0 +1,147 @@
+/**
+ * Station detail panel combining a station's figures from every table
+ */
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Sparkles } from 'lucide-react';
+import { formatNumber, getSeverityColor } from '../lib/dataUtils';
+import { getExceedanceColor } from '../lib/chartTheme';
+import { toPolicyLocation, type StationProfile } from '../lib/stationProfile';
+
+interface StationDetailPanelProps {
+  profile: StationProfile | null;
+  onClose: () => void;
+  /** Opens policy suggestions for the station */
+  onGeneratePolicies: (stationId: string) => void;
+}
+
+const formatLevel = (level: number | undefined) => level === undefined ? 'N/A' : `${level.toFixed(1)} dBA`;
+
+function Figure({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <p className="text-xs text-slate-500">{label}</p>
+      <p className={`text-lg font-semibold ${className ?? 'text-slate-900'}`}>{value}</p>
+    </div>
+  );
+}
+
+export function StationDetailPanel({ profile, onClose, onGeneratePolicies }: StationDetailPanelProps) {
+  const policyLocation = profile ? toPolicyLocation(profile) : null;
+
+  return (
+    <Dialog open={profile !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        {profile && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="text-xl">{profile.name}</DialogTitle>
+              <DialogDescription>
+                {profile.station
+                  ? `${profile.station.zoneType} zone · ${profile.station.latitude.toFixed(4)}, ${profile.station.longitude.toFixed(4)}`
+                  : `Station "${profile.stationId}" is not in the station registry`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-5 mt-2">
+              <section>
+                <h3 className="font-semibold text-slate-800 mb-2">Noise level</h3>
+                {profile.ranking ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <Figure label="Average LAeq (arithmetic)" value={`${profile.ranking.Average_LAeq_dBA.toFixed(1)} dBA`} className="text-red-600" />
+                    <Figure label="Rank" value={`${profile.rank} of ${profile.rankedCount}`} />
+                    <Figure label="Day limit" value={`${profile.ranking.Day_Limit_dBA} dBA`} />
+                    <Figure label="Night limit" value={`${profile.ranking.Night_Limit_dBA} dBA`} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">Not in the station rankings table</p>
+                )}
+              </section>
+
+              {profile.acoustics && (
+                <section>
+                  <h3 className="font-semibold text-slate-800 mb-2">Acoustic levels</h3>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                    <Figure label="Leq (energetic mean)" value={formatLevel(profile.acoustics.Leq_dBA)} className="text-red-600" />
+                    <Figure label="L10 (exceeded 10%)" value={formatLevel(profile.acoustics.L10_dBA)} />
+                    <Figure label="L50 (median)" value={formatLevel(profile.acoustics.L50_dBA)} />
+                    <Figure label="L90 (background)" value={formatLevel(profile.acoustics.L90_dBA)} />
+                    <Figure label="Lday" value={formatLevel(profile.acoustics.Lday_dBA)} />
+                    <Figure label="Lnight" value={formatLevel(profile.acoustics.Lnight_dBA)} />
+                    <Figure label="Lden (+5 evening, +10 night)" value={formatLevel(profile.acoustics.Lden_dBA)} />
+                  </div>
+                  <p className="mt-2 text-xs text-slate-500">
+                    Leq averages sound energy, so loud readings count for more than in the arithmetic average.
+                  </p>
+                </section>
+              )}
+
+              <section>
+                <h3 className="font-semibold text-slate-800 mb-2">Exceedance</h3>
+                {profile.exceedance ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                    <Figure label="Violation rate" value={`${profile.exceedance.Exceedance_Percentage.toFixed(1)}%`} className="text-orange-600" />
+                    <Figure label="Exceedances" value={formatNumber(profile.exceedance.Exceedance_Count)} />
+                    <Figure label="Total readings" value={formatNumber(profile.exceedance.Total_Count)} />
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">Not in the exceedance summary table</p>
+                )}
+                {profile.exceedance && (
+                  <div className="mt-2 h-2 rounded-full bg-slate-100 overflow-hidden">
+                    <div
+                      className="h-full"
+                      style={{
+                        width: `${profile.exceedance.Exceedance_Percentage}%`,
+                        backgroundColor: getExceedanceColor(profile.exceedance.Exceedance_Percentage),
+                      }}
+                    />
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-slate-800 mb-2">Violation severity</h3>
+                {profile.severity ? (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 items-end">
+                    <Figure label="Average excess" value={`${profile.severity.Avg_Excess_dBA.toFixed(1)} dBA`} />
+                    <Figure label="Maximum excess" value={`${profile.severity.Max_Excess_dBA.toFixed(1)} dBA`} />
+                    <div>
+                      <p className="text-xs text-slate-500 mb-1">Category</p>
+                      <Badge variant={getSeverityColor(profile.severity.Severity_Category) as "default" | "destructive" | "secondary" | "outline"}>
+                        {profile.severity.Severity_Category}
+                      </Badge>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-slate-500">Not in the violation severity table</p>
+                )}
+              </section>
+
+              <div className="flex items-center gap-3 pt-2 border-t">
+                <Button
+                  onClick={() => profile && onGeneratePolicies(profile.stationId)}
+                  disabled={!policyLocation}
+                  className="mt-3"
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Generate policy suggestions
+                </Button>
+                {!policyLocation && (
+                  <span className="text-xs text-slate-500 mt-3">Needs this station's ranking and exceedance figures</span>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Shared tooltip frame for the interactive charts
+ */
+import type { ReactNode } from 'react';
+
+interface ChartTooltipProps {
+  title: ReactNode;
+  rows: { label: string; value: ReactNode; color?: string }[];
+}
+
+export function ChartTooltip({ title, rows }: ChartTooltipProps) {
+  return (
+    <div className="bg-white border border-slate-200 rounded-md shadow-md p-3 text-sm space-y-1">
+      <p className="font-semibold">{title}</p>
+      {rows.map(row => (
+        <p key={row.label}>
+          <span className="font-medium" style={{ color: row.color }}>{row.label}:</span> {row.value}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Share of readings above the applicable limit, per station
+ */
+import {
+  Bar,
+  Brush,
+  CartesianGrid,
+  Cell,
+  BarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipContentProps,
+  type TooltipValueType,
+} from 'recharts';
+import { formatNumber, type ExceedanceSummary } from '../../lib/dataUtils';
+import { getStationName } from '../../lib/stations';
+import { getExceedanceColor } from '../../lib/chartTheme';
+import { ChartTooltip } from './ChartTooltip';
+
+interface ExceedanceChartProps {
+  data: ExceedanceSummary[];
+}
+
+interface ExceedancePoint {
+  name: string;
+  zoneType: string;
+  percentage: number;
+  count: number;
+  total: number;
+}
+
+function ExceedanceTooltip({ active, payload }: TooltipContentProps<TooltipValueType, string | number>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as ExceedancePoint;
+
+  return (
+    <ChartTooltip
+      title={point.name}
+      rows={[
+        { label: 'Zone', value: point.zoneType },
+        { label: 'Violation rate', value: `${point.percentage.toFixed(1)}%`, color: getExceedanceColor(point.percentage) },
+        { label: 'Exceedances', value: `${formatNumber(point.count)} of ${formatNumber(point.total)}` },
+      ]}
+    />
+  );
+}
+
+export function ExceedanceChart({ data }: ExceedanceChartProps) {
+  const points: ExceedancePoint[] = [...data]
+    .sort((a, b) => b.Exceedance_Percentage - a.Exceedance_Percentage)
+    .map(row => ({
+      name: getStationName(row.Location),
+      zoneType: row.Zone_Type,
+      percentage: row.Exceedance_Percentage,
+      count: row.Exceedance_Count,
+      total: row.Total_Count,
+    }));
+
+  return (
+    <div className="h-80 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={points} layout="vertical" margin={{ top: 10, right: 20, bottom: 10, left: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis type="number" domain={[0, 100]} unit="%" fontSize={12} />
+          <YAxis type="category" dataKey="name" width={120} fontSize={11} />
+          <Tooltip content={ExceedanceTooltip} />
+          <Bar dataKey="percentage" name="Violation rate" radius={[0, 4, 4, 0]}>
+            {points.map(point => (
+              <Cell key={point.name} fill={getExceedanceColor(point.percentage)} />
+            ))}
+          </Bar>
+          {points.length > 6 && <Brush dataKey="name" height={20} stroke="#94a3b8" travellerWidth={8} />}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * 24-hour noise profile chart built from the hourly statistics table
+ */
+import { useMemo, useState } from 'react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipContentProps,
+  type TooltipValueType,
+} from 'recharts';
+import { formatHour, type HourlyStatistics } from '../../lib/dataUtils';
+import { getRegistryZoneTypes, type ZoneType } from '../../lib/stations';
+import { isNightHourIn, zoneLimitAt, type LimitProfile } from '../../lib/limitProfiles';
+import { LIMIT_COLORS, formatDb } from '../../lib/chartTheme';
+import { ChartTooltip } from './ChartTooltip';
+
+interface HourlyProfileChartProps {
+  data: HourlyStatistics[];
+  /** Profile for the limit line and the night shading */
+  limits: LimitProfile;
+}
+
+interface HourlyPoint {
+  hour: number;
+  mean: number;
+  median: number;
+  range: [number, number];
+  night: boolean;
+  limit: number;
+}
+
+function HourlyTooltip({ active, payload }: TooltipContentProps<TooltipValueType, string | number>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as HourlyPoint;
+
+  const rows = [
+    { label: 'Mean', value: formatDb(point.mean), color: '#2563eb' },
+    { label: 'Median', value: formatDb(point.median), color: '#059669' },
+    { label: 'Min–Max', value: `${point.range[0].toFixed(1)} – ${point.range[1].toFixed(1)} dBA`, color: '#64748b' },
+  ];
+  rows.push({ label: 'Limit', value: `${point.limit} dBA`, color: LIMIT_COLORS.day });
+
+  return (
+    <ChartTooltip
+      title={`${formatHour(point.hour)} (${point.night ? 'night' : 'day'})`}
+      rows={rows}
+    />
+  );
+}
+
+export function HourlyProfileChart({ data, limits }: HourlyProfileChartProps) {
+  const zoneTypes = getRegistryZoneTypes();
+  const [zoneType, setZoneType] = useState<ZoneType>(zoneTypes[0]);
+  const [showRange, setShowRange] = useState(true);
+
+  const points = useMemo<HourlyPoint[]>(() => {
+    return [...data]
+      .sort((a, b) => a.Hour - b.Hour)
+      .map(row => ({
+        hour: row.Hour,
+        mean: row.Average_LAeq_dBA,
+        median: row.Median_LAeq_dBA,
+        range: [row.Min_LAeq_dBA, row.Max_LAeq_dBA],
+        night: isNightHourIn(limits, row.Hour),
+        limit: zoneLimitAt(limits, zoneType, row.Hour),
+      }));
+  }, [data, zoneType, limits]);
+
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 py-8 text-center">Hourly statistics not available</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          Limit reference:
+          <select
+            value={zoneType}
+            onChange={(e) => setZoneType(e.target.value as ZoneType)}
+            className="p-1 border rounded-md bg-background"
+          >
+            {zoneTypes.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={showRange} onChange={(e) => setShowRange(e.target.checked)} />
+          Show min–max band
+        </label>
+      </div>
+
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={points} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            {/* Night-time shading, from the profile's night start to its day start */}
+            {limits.dayStartHour > 0 && (
+              <ReferenceArea x1={0} x2={limits.dayStartHour - 1} fill={LIMIT_COLORS.night} fillOpacity={0.06} ifOverflow="extendDomain" />
+            )}
+            <ReferenceArea x1={limits.nightStartHour} x2={23} fill={LIMIT_COLORS.night} fillOpacity={0.06} ifOverflow="extendDomain" />
+            <XAxis dataKey="hour" tickFormatter={formatHour} interval={2} fontSize={12} />
+            <YAxis unit=" dB" fontSize={12} domain={['auto', 'auto']} />
+            <Tooltip content={HourlyTooltip} />
+            <Legend />
+            {showRange && (
+              <Area
+                type="monotone"
+                dataKey="range"
+                name="Min–Max"
+                stroke="none"
+                fill="#94a3b8"
+                fillOpacity={0.25}
+                isAnimationActive={false}
+              />
+            )}
+            <Line type="monotone" dataKey="mean" name="Mean" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} />
+            <Line type="monotone" dataKey="median" name="Median" stroke="#059669" strokeWidth={2} dot={false} />
+            <Line
+              type="stepAfter"
+              dataKey="limit"
+              name={`${zoneType} limit (day/night)`}
+              stroke={LIMIT_COLORS.day}
+              strokeDasharray="6 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Average and peak excess over the limit, coloured by severity category
+ */
+import { useState } from 'react';
+import {
+  Bar,
+  Brush,
+  CartesianGrid,
+  Cell,
+  BarChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipContentProps,
+  type TooltipValueType,
+} from 'recharts';
+import type { ViolationSeverity } from '../../lib/dataUtils';
+import { getStationName } from '../../lib/stations';
+import { SEVERITY_COLORS, formatDb } from '../../lib/chartTheme';
+import { ChartTooltip } from './ChartTooltip';
+
+interface SeverityChartProps {
+  data: ViolationSeverity[];
+}
+
+interface SeverityPoint {
+  name: string;
+  zoneType: string;
+  category: string;
+  avgExcess: number;
+  maxExcess: number;
+}
+
+function SeverityTooltip({ active, payload }: TooltipContentProps<TooltipValueType, string | number>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as SeverityPoint;
+
+  return (
+    <ChartTooltip
+      title={point.name}
+      rows={[
+        { label: 'Zone', value: point.zoneType },
+        { label: 'Severity', value: point.category, color: SEVERITY_COLORS[point.category] },
+        { label: 'Avg excess', value: formatDb(point.avgExcess) },
+        { label: 'Max excess', value: formatDb(point.maxExcess) },
+      ]}
+    />
+  );
+}
+
+export function SeverityChart({ data }: SeverityChartProps) {
+  const [metric, setMetric] = useState<'avgExcess' | 'maxExcess'>('avgExcess');
+
+  const points: SeverityPoint[] = data
+    .map(row => ({
+      name: getStationName(row.Location),
+      zoneType: row.Zone_Type,
+      category: row.Severity_Category,
+      avgExcess: row.Avg_Excess_dBA,
+      maxExcess: row.Max_Excess_dBA,
+    }))
+    .sort((a, b) => b[metric] - a[metric]);
+
+  const categories = Object.keys(SEVERITY_COLORS).filter(c => points.some(p => p.category === c));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          Metric:
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as 'avgExcess' | 'maxExcess')}
+            className="p-1 border rounded-md bg-background"
+          >
+            <option value="avgExcess">Average excess</option>
+            <option value="maxExcess">Maximum excess</option>
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {categories.map(category => (
+            <span key={category} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: SEVERITY_COLORS[category] }} />
+              {category}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-80 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={points} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="name" fontSize={11} interval={0} angle={-30} textAnchor="end" height={60} />
+            <YAxis unit=" dB" fontSize={12} />
+            <Tooltip content={SeverityTooltip} />
+            <Bar dataKey={metric} name={metric === 'avgExcess' ? 'Average excess' : 'Maximum excess'} radius={[4, 4, 0, 0]}>
+              {points.map(point => (
+                <Cell key={point.name} fill={SEVERITY_COLORS[point.category] ?? '#64748b'} />
+              ))}
+            </Bar>
+            {points.length > 6 && <Brush dataKey="name" height={20} stroke="#94a3b8" travellerWidth={8} />}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
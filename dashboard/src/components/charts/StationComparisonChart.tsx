@@ -0,0 +1,87 @@
+/**
+ * Average noise per station against its day and night limits
+ */
+import {
+  Bar,
+  Brush,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Legend,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+  type TooltipContentProps,
+  type TooltipValueType,
+} from 'recharts';
+import type { StationRanking } from '../../lib/dataUtils';
+import { getStationName, type ZoneType } from '../../lib/stations';
+import { LIMIT_COLORS, ZONE_COLORS, formatDb } from '../../lib/chartTheme';
+import { ChartTooltip } from './ChartTooltip';
+
+interface StationComparisonChartProps {
+  data: StationRanking[];
+}
+
+interface StationPoint {
+  name: string;
+  zoneType: string;
+  average: number;
+  dayLimit: number;
+  nightLimit: number;
+}
+
+function StationTooltip({ active, payload }: TooltipContentProps<TooltipValueType, string | number>) {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload as StationPoint;
+  const excess = point.average - point.dayLimit;
+
+  return (
+    <ChartTooltip
+      title={point.name}
+      rows={[
+        { label: 'Zone', value: point.zoneType },
+        { label: 'Average LAeq', value: formatDb(point.average), color: ZONE_COLORS[point.zoneType as ZoneType] },
+        { label: 'Day limit', value: `${point.dayLimit} dBA`, color: LIMIT_COLORS.day },
+        { label: 'Night limit', value: `${point.nightLimit} dBA`, color: LIMIT_COLORS.night },
+        { label: 'vs day limit', value: `${excess >= 0 ? '+' : ''}${excess.toFixed(1)} dB` },
+      ]}
+    />
+  );
+}
+
+export function StationComparisonChart({ data }: StationComparisonChartProps) {
+  const points: StationPoint[] = [...data]
+    .sort((a, b) => b.Average_LAeq_dBA - a.Average_LAeq_dBA)
+    .map(row => ({
+      name: getStationName(row.Location),
+      zoneType: row.Zone_Type,
+      average: row.Average_LAeq_dBA,
+      dayLimit: row.Day_Limit_dBA,
+      nightLimit: row.Night_Limit_dBA,
+    }));
+
+  return (
+    <div className="h-80 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={points} margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis dataKey="name" fontSize={11} interval={0} angle={-30} textAnchor="end" height={60} />
+          <YAxis unit=" dB" fontSize={12} domain={[30, 'auto']} />
+          <Tooltip content={StationTooltip} />
+          <Legend verticalAlign="top" />
+          <Bar dataKey="average" name="Average LAeq" radius={[4, 4, 0, 0]}>
+            {points.map(point => (
+              <Cell key={point.name} fill={ZONE_COLORS[point.zoneType as ZoneType] ?? '#64748b'} />
+            ))}
+          </Bar>
+          <Scatter dataKey="dayLimit" name="Day limit" fill={LIMIT_COLORS.day} shape="diamond" />
+          <Scatter dataKey="nightLimit" name="Night limit" fill={LIMIT_COLORS.night} shape="triangle" />
+          {points.length > 6 && <Brush dataKey="name" height={20} stroke="#94a3b8" travellerWidth={8} />}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
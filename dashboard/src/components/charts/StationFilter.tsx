@@ -0,0 +1,50 @@
+/**
+ * Station toggle chips above the interactive charts, bound to the stations of
+ * the dashboard filter so they always agree with the filter bar
+ */
+import { Button } from '../ui/button';
+import { STATIONS } from '../../lib/stations';
+
+interface StationFilterProps {
+  /** Station ids kept by the dashboard filter; empty keeps every station */
+  stations: string[];
+  onChange: (stations: string[]) => void;
+}
+
+export function StationFilter({ stations, onChange }: StationFilterProps) {
+  const isShown = (id: string) => stations.length === 0 || stations.includes(id);
+  const shownCount = STATIONS.filter(station => isShown(station.id)).length;
+
+  const toggle = (id: string) => {
+    const next = STATIONS
+      .filter(station => (station.id === id ? !isShown(id) : isShown(station.id)))
+      .map(station => station.id);
+    // Every station shown is the same as no station filter
+    onChange(next.length === STATIONS.length ? [] : next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-medium text-slate-600 mr-1">Stations:</span>
+      {STATIONS.map(station => {
+        const shown = isShown(station.id);
+        return (
+          <Button
+            key={station.id}
+            size="sm"
+            variant={shown ? 'default' : 'outline'}
+            onClick={() => toggle(station.id)}
+            // An empty selection would mean every station again
+            disabled={shown && shownCount === 1}
+            aria-pressed={shown}
+          >
+            {station.name}
+          </Button>
+        );
+      })}
+      <Button size="sm" variant="ghost" onClick={() => onChange([])} disabled={stations.length === 0}>
+        Show all
+      </Button>
+    </div>
+  );
+}
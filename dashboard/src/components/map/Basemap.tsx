@@ -0,0 +1,96 @@
+/**
+ * Map basemap: tiles from the configured source, with the bundled district
+ * outline drawn underneath as a fallback wherever tiles fail to load
+ */
+import { useEffect, useRef, useState } from 'react';
+import { GeoJSON, Pane, TileLayer } from 'react-leaflet';
+import type { TileLayer as LeafletTileLayer } from 'leaflet';
+import { DELHI_DISTRICTS } from '../../lib/districts';
+import { getTileSource, type TileSource } from '../../lib/tileSources';
+
+interface BasemapProps {
+  sourceId: string;
+}
+
+// Below Leaflet's tile pane (z-index 200), so loaded tiles cover the outline
+const OUTLINE_PANE_Z_INDEX = 150;
+
+const OUTLINE_STYLE = {
+  color: '#94a3b8',
+  weight: 1,
+  fillColor: '#f1f5f9',
+  fillOpacity: 1,
+};
+
+interface DistrictOutlineProps {
+  /** Show district names (when the outline is the only basemap) */
+  labelled: boolean;
+  attribution?: string;
+}
+
+function DistrictOutline({ labelled, attribution }: DistrictOutlineProps) {
+  return (
+    <Pane name="district-outline" style={{ zIndex: OUTLINE_PANE_Z_INDEX }}>
+      <GeoJSON
+        key={labelled ? 'labelled' : 'plain'}
+        data={DELHI_DISTRICTS}
+        style={OUTLINE_STYLE}
+        interactive={false}
+        attribution={attribution}
+        onEachFeature={(feature, layer) => {
+          if (labelled) {
+            layer.bindTooltip(feature.properties.name, { permanent: true, direction: 'center', opacity: 0.7 });
+          }
+        }}
+      />
+    </Pane>
+  );
+}
+
+function SourceBasemap({ source }: { source: TileSource }) {
+  const tileLayerRef = useRef<LeafletTileLayer | null>(null);
+  const [failedTiles, setFailedTiles] = useState<number>(0);
+  const [hasLoadedTiles, setHasLoadedTiles] = useState<boolean>(false);
+
+  // Retry failed tiles when the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setFailedTiles(0);
+      tileLayerRef.current?.redraw();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  if (!source.url) {
+    return <DistrictOutline labelled attribution={source.attribution} />;
+  }
+
+  return (
+    <>
+      <DistrictOutline labelled={failedTiles > 0 && !hasLoadedTiles} />
+      <TileLayer
+        ref={tileLayerRef}
+        url={source.url}
+        attribution={source.attribution}
+        maxZoom={source.maxZoom}
+        // CORS responses let the tile service worker tell errors from tiles
+        crossOrigin
+        eventHandlers={{
+          tileerror: () => setFailedTiles(count => count + 1),
+          tileload: () => setHasLoadedTiles(true),
+        }}
+      />
+      {failedTiles > 0 && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-[1000] pointer-events-none bg-amber-50/95 border border-amber-300 text-amber-900 text-xs rounded-md px-3 py-1 shadow">
+          {failedTiles} map tile{failedTiles === 1 ? '' : 's'} could not load; showing the bundled district outline instead
+        </div>
+      )}
+    </>
+  );
+}
+
+export function Basemap({ sourceId }: BasemapProps) {
+  const source = getTileSource(sourceId);
+  return <SourceBasemap key={source.id} source={source} />;
+}
@@ -0,0 +1,172 @@
+/**
+ * Live district choropleth of exceedance rates, built from the exceedance summary,
+ * or of the excess over the zone limits, from the violation severity table
+ */
+import { useMemo, useState } from 'react';
+import { CircleMarker, GeoJSON, MapContainer, Tooltip } from 'react-leaflet';
+import type { PathOptions } from 'leaflet';
+import { Basemap } from './Basemap';
+import { formatNumber, type ExceedanceSummary, type ViolationSeverity } from '../../lib/dataUtils';
+import { getStation, getStationName } from '../../lib/stations';
+import { getExceedanceColor } from '../../lib/chartTheme';
+import { DELHI_DISTRICTS, districtBounds } from '../../lib/districts';
+import { DEFAULT_TILE_SOURCE_ID } from '../../lib/tileSources';
+import {
+  CLASSIFICATION_METHODS,
+  classify,
+  computeDistrictExceedance,
+  districtValue,
+  findBin,
+  type ClassificationMethod,
+} from '../../lib/choropleth';
+
+interface ExceedanceChoroplethProps {
+  data: ExceedanceSummary[];
+  severity: ViolationSeverity[];
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatExcess = (value: number) => `${value.toFixed(1)} dB`;
+
+export function ExceedanceChoropleth({ data, severity }: ExceedanceChoroplethProps) {
+  const [method, setMethod] = useState<ClassificationMethod>('quantile');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const districts = useMemo(() => computeDistrictExceedance(data, severity), [data, severity]);
+  const bins = useMemo(() => classify(districts.map(d => districtValue(d, method)), method), [districts, method]);
+  const byExcess = method === 'cpcb-bands';
+  const formatValue = byExcess ? formatExcess : formatPercent;
+  const bounds = useMemo(() => districtBounds(), []);
+
+  const byId = useMemo(() => Object.fromEntries(districts.map(d => [d.id, d])), [districts]);
+  const selected = selectedId ? byId[selectedId] : undefined;
+
+  // Restyles the polygons whenever the classes or selection change
+  const style = useMemo(() => (feature?: GeoJSON.Feature): PathOptions => {
+    const district = feature ? byId[feature.properties?.id] : undefined;
+    const bin = district ? findBin(bins, districtValue(district, method)) : undefined;
+    const interpolated = district?.source === 'interpolated';
+    return {
+      color: district?.id === selectedId ? '#0f172a' : '#475569',
+      weight: district?.id === selectedId ? 3 : 1,
+      dashArray: interpolated ? '4 3' : undefined,
+      fillColor: bin?.color ?? '#e2e8f0',
+      fillOpacity: interpolated ? 0.5 : 0.75,
+    };
+  }, [byId, bins, method, selectedId]);
+
+  // Tooltips are bound once per layer, so rebuild the layer when the values change
+  const layerKey = `${method}|${districts.map(d => districtValue(d, method).toFixed(2)).join('|')}`;
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        Classification:
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as ClassificationMethod)}
+          className="p-1 border rounded-md bg-background"
+        >
+          {CLASSIFICATION_METHODS.map(m => (
+            <option key={m.id} value={m.id}>{m.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="relative h-[380px] rounded-md overflow-hidden border">
+        <MapContainer bounds={bounds} style={{ height: '100%', width: '100%' }} scrollWheelZoom={false}>
+          <Basemap sourceId={DEFAULT_TILE_SOURCE_ID} />
+          <GeoJSON
+            key={layerKey}
+            data={DELHI_DISTRICTS}
+            style={style}
+            onEachFeature={(feature, layer) => {
+              const district = byId[feature.properties.id];
+              if (!district) return;
+              const value = districtValue(district, method);
+              layer.bindTooltip(
+                `${district.name}: ${Number.isFinite(value) ? formatValue(value) : 'no data'}` +
+                  (district.source === 'interpolated' ? ' (interpolated)' : ''),
+                { sticky: true }
+              );
+              layer.on('click', () => setSelectedId(district.id));
+            }}
+          />
+          {data.map(row => {
+            const station = getStation(row.Location);
+            if (!station) return null;
+            const excess = severity.find(s => s.Location === row.Location)?.Avg_Excess_dBA ?? 0;
+            return (
+              <CircleMarker
+                key={row.Location}
+                center={[station.latitude, station.longitude]}
+                radius={5}
+                pathOptions={{ color: '#0f172a', weight: 1, fillColor: byExcess ? findBin(bins, excess)?.color : getExceedanceColor(row.Exceedance_Percentage), fillOpacity: 1 }}
+                bubblingMouseEvents={false}
+              >
+                <Tooltip>{station.name}: {byExcess ? formatExcess(excess) : formatPercent(row.Exceedance_Percentage)}</Tooltip>
+              </CircleMarker>
+            );
+          })}
+        </MapContainer>
+
+        {/* Legend */}
+        <div className="absolute bottom-3 right-3 z-[1000] bg-white/90 rounded-md shadow-md p-3 text-xs">
+          <p className="font-semibold mb-1">{byExcess ? 'Average excess over zone limit' : 'Exceedance rate'}</p>
+          {bins.map(bin => (
+            <div key={`${bin.lower}-${bin.upper}`} className="flex items-center gap-2">
+              <span className="inline-block w-4 h-3 rounded-sm" style={{ backgroundColor: bin.color }} />
+              {bin.label && `${bin.label}: `}
+              {Number.isFinite(bin.upper)
+                ? `${formatValue(bin.lower)} – ${formatValue(bin.upper)}`
+                : `over ${formatValue(bin.lower)}`}
+            </div>
+          ))}
+          {byExcess && (
+            <p className="text-slate-500 mt-1">Severity bands of the violation severity table</p>
+          )}
+          {method === 'fixed-bands' && (
+            <p className="text-slate-500 mt-1">Dashboard thresholds, not regulatory limits</p>
+          )}
+          <p className="text-slate-500 mt-1">Dashed border: no station, interpolated</p>
+        </div>
+      </div>
+
+      {/* Stations behind the selected district */}
+      {selected ? (
+        <div className="border rounded-md p-3 text-sm space-y-2">
+          <div className="flex justify-between items-baseline">
+            <strong>{selected.name}</strong>
+            {byExcess ? (
+              <span className="font-semibold" style={{ color: findBin(bins, selected.excess)?.color }}>
+                {formatExcess(selected.excess)} over the limit
+              </span>
+            ) : (
+              <span className="font-semibold" style={{ color: getExceedanceColor(selected.value) }}>
+                {formatPercent(selected.value)}
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-slate-600">
+            {selected.source === 'stations'
+              ? `Pooled readings of ${selected.drivers.length} station${selected.drivers.length === 1 ? '' : 's'} in the district`
+              : 'No station in the district; estimated by inverse distance weighting from all stations'}
+          </p>
+          <ul className="space-y-1">
+            {selected.drivers.slice(0, selected.source === 'stations' ? undefined : 3).map(driver => (
+              <li key={driver.stationId} className="flex justify-between gap-4">
+                <span>{getStationName(driver.stationId)}</span>
+                <span className="text-slate-600">
+                  {formatPercent(driver.percentage)} ({formatNumber(driver.exceedanceCount)} of {formatNumber(driver.totalCount)})
+                  {byExcess && ` · ${formatExcess(driver.excess)} over`} · weight {(driver.weight * 100).toFixed(0)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">Click a district to see the stations behind its value.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Interpolated noise surface drawn as a raster image or hexagonal bins
+ */
+import { useMemo } from 'react';
+import { ImageOverlay, Polygon } from 'react-leaflet';
+import {
+  interpolateGrid,
+  interpolateHexGrid,
+  samplesBounds,
+  type SamplePoint,
+} from '../../lib/interpolation';
+import { getSurfaceColor, getSurfaceRgb } from '../../lib/mapStyles';
+
+export type SurfaceMode = 'raster' | 'hexbin';
+
+interface InterpolationLayerProps {
+  samples: SamplePoint[];
+  mode: SurfaceMode;
+  opacity?: number;
+}
+
+// Raster resolution (cells per side) and hexagon circumradius
+const RASTER_SIZE = 120;
+const HEX_RADIUS_KM = 1.2;
+
+function RasterSurface({ samples, opacity }: { samples: SamplePoint[]; opacity: number }) {
+  const overlay = useMemo(() => {
+    const bounds = samplesBounds(samples);
+    const grid = interpolateGrid(samples, bounds, RASTER_SIZE, RASTER_SIZE);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = RASTER_SIZE;
+    canvas.height = RASTER_SIZE;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const image = ctx.createImageData(RASTER_SIZE, RASTER_SIZE);
+    grid.forEach((row, y) => {
+      row.forEach((value, x) => {
+        const [r, g, b] = getSurfaceRgb(value);
+        const offset = (y * RASTER_SIZE + x) * 4;
+        image.data[offset] = r;
+        image.data[offset + 1] = g;
+        image.data[offset + 2] = b;
+        image.data[offset + 3] = 255;
+      });
+    });
+    ctx.putImageData(image, 0, 0);
+
+    return {
+      url: canvas.toDataURL(),
+      bounds: [[bounds.south, bounds.west], [bounds.north, bounds.east]] as [[number, number], [number, number]],
+    };
+  }, [samples]);
+
+  if (!overlay) return null;
+  return <ImageOverlay url={overlay.url} bounds={overlay.bounds} opacity={opacity} />;
+}
+
+function HexbinSurface({ samples, opacity }: { samples: SamplePoint[]; opacity: number }) {
+  const cells = useMemo(() => interpolateHexGrid(samples, samplesBounds(samples), HEX_RADIUS_KM), [samples]);
+
+  return (
+    <>
+      {cells.map(cell => (
+        <Polygon
+          key={`${cell.center[0].toFixed(5)},${cell.center[1].toFixed(5)}`}
+          positions={cell.vertices}
+          pathOptions={{
+            fillColor: getSurfaceColor(cell.value),
+            fillOpacity: opacity,
+            color: '#ffffff',
+            weight: 0.5,
+            opacity: opacity * 0.6,
+          }}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+export function InterpolationLayer({ samples, mode, opacity = 0.6 }: InterpolationLayerProps) {
+  if (samples.length < 2) return null;
+  return mode === 'raster'
+    ? <RasterSurface samples={samples} opacity={opacity} />
+    : <HexbinSurface samples={samples} opacity={opacity} />;
+}
@@ -0,0 +1,38 @@
+/**
+ * Click anywhere on the map to read the interpolated noise level there
+ */
+import { useState } from 'react';
+import { Popup, useMapEvents } from 'react-leaflet';
+import { interpolateIdw, haversineKm, type SamplePoint } from '../../lib/interpolation';
+
+interface PointProbeProps {
+  samples: SamplePoint[];
+  /** Label for where the samples came from, e.g. "predictions" */
+  sourceLabel: string;
+}
+
+export function PointProbe({ samples, sourceLabel }: PointProbeProps) {
+  const [position, setPosition] = useState<[number, number] | null>(null);
+
+  useMapEvents({
+    click: (event) => setPosition([event.latlng.lat, event.latlng.lng]),
+  });
+
+  if (!position || samples.length === 0) return null;
+
+  const value = interpolateIdw(samples, position[0], position[1]);
+  const nearestKm = Math.min(...samples.map(s => haversineKm(position[0], position[1], s.latitude, s.longitude)));
+
+  return (
+    <Popup position={position} eventHandlers={{ remove: () => setPosition(null) }}>
+      <div className="space-y-1">
+        <strong>Estimated level</strong>
+        <p className="text-lg font-bold">{value.toFixed(1)} dBA</p>
+        <p className="text-xs text-slate-600">
+          IDW from {samples.length} station {sourceLabel}; nearest station {nearestKm.toFixed(1)} km away
+        </p>
+        <p className="text-xs text-slate-500">{position[0].toFixed(4)}, {position[1].toFixed(4)}</p>
+      </div>
+    </Popup>
+  );
+}
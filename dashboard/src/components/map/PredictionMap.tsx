@@ -0,0 +1,65 @@
+/**
+ * Compact map of one set of predictions, for showing runs side by side
+ */
+import { MapContainer, CircleMarker, Popup } from 'react-leaflet';
+import { Button } from '../ui/button';
+import { Basemap } from './Basemap';
+import { ViewSync } from './ViewSync';
+import { getStationName } from '../../lib/stations';
+import { DELHI_CENTER, DELHI_ZOOM, getNoiseColor, getNoiseRadius, type MapView } from '../../lib/mapStyles';
+import type { MapDataPoint } from '../../lib/predictionModel';
+
+interface PredictionMapProps {
+  title: string;
+  points: MapDataPoint[];
+  tileSourceId: string;
+  /** Station ids drawn with a dark outline, e.g. where an intervention applies */
+  highlighted?: string[];
+  onStationSelect?: (stationId: string) => void;
+  /** Shared view for maps that pan and zoom together */
+  view?: MapView;
+  onViewChange?: (view: MapView) => void;
+}
+
+export function PredictionMap({ title, points, tileSourceId, highlighted = [], onStationSelect, view, onViewChange }: PredictionMapProps) {
+  return (
+    <div className="relative h-[360px] rounded-md overflow-hidden border-2 border-primary/20">
+      <MapContainer center={view?.center ?? DELHI_CENTER} zoom={view?.zoom ?? DELHI_ZOOM} style={{ height: '100%', width: '100%' }}>
+        <Basemap sourceId={tileSourceId} />
+        {view && onViewChange && <ViewSync view={view} onViewChange={onViewChange} />}
+        {points.map(spot => (
+          <CircleMarker
+            key={spot.location}
+            center={[spot.latitude, spot.longitude]}
+            pathOptions={{
+              color: highlighted.includes(spot.location) ? '#0f172a' : getNoiseColor(spot.predicted_noise),
+              weight: highlighted.includes(spot.location) ? 3 : 1,
+              fillColor: getNoiseColor(spot.predicted_noise),
+              fillOpacity: 0.8
+            }}
+            radius={getNoiseRadius(spot.predicted_noise)}
+          >
+            <Popup>
+              <div className="space-y-1">
+                <strong className="text-lg">{getStationName(spot.location)}</strong>
+                <p><strong>{title}:</strong> {spot.predicted_noise.toFixed(2)} dBA</p>
+                <p><strong>Limit:</strong> {spot.noise_limit} dBA</p>
+                <p><strong>Status:</strong> <span className={spot.is_violation ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold'}>
+                  {spot.is_violation ? 'VIOLATION' : 'Compliant'}
+                </span></p>
+                {onStationSelect && (
+                  <Button size="sm" variant="outline" className="mt-1" onClick={() => onStationSelect(spot.location)}>
+                    Station details
+                  </Button>
+                )}
+              </div>
+            </Popup>
+          </CircleMarker>
+        ))}
+      </MapContainer>
+      <div className="absolute top-2 right-2 z-[1000] bg-white/90 rounded-md shadow-md px-2 py-1 text-xs font-semibold">
+        {title}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Colour legend for the interpolated noise surface
+ */
+import { SURFACE_COLOR_STOPS } from '../../lib/mapStyles';
+
+interface SurfaceLegendProps {
+  title: string;
+}
+
+export function SurfaceLegend({ title }: SurfaceLegendProps) {
+  const gradient = SURFACE_COLOR_STOPS
+    .map(([, rgb], i) => `rgb(${rgb.join(', ')}) ${(i / (SURFACE_COLOR_STOPS.length - 1)) * 100}%`)
+    .join(', ');
+
+  return (
+    <div className="absolute bottom-4 left-4 z-[1000] bg-white/90 rounded-md shadow-md p-3 text-xs w-56">
+      <p className="font-semibold mb-2">{title}</p>
+      <div className="h-3 rounded-sm" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+      <div className="flex justify-between mt-1 text-slate-600">
+        {SURFACE_COLOR_STOPS.map(([value]) => (
+          <span key={value}>{value}</span>
+        ))}
+      </div>
+      <p className="text-slate-500 mt-1">dBA · click the map for a point estimate</p>
+    </div>
+  );
+}
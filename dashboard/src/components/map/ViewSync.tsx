@@ -0,0 +1,37 @@
+/**
+ * Keeps a map's centre and zoom in step with a shared view, so several maps
+ * pan and zoom together
+ */
+import { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import type { MapView } from '../../lib/mapStyles';
+
+interface ViewSyncProps {
+  view: MapView;
+  onViewChange: (view: MapView) => void;
+}
+
+// Centre differences below this (degrees) count as the same view
+const CENTER_TOLERANCE = 1e-6;
+
+export function ViewSync({ view, onViewChange }: ViewSyncProps) {
+  const map = useMap();
+
+  useMapEvents({
+    moveend: () => {
+      const center = map.getCenter();
+      onViewChange({ center: [center.lat, center.lng], zoom: map.getZoom() });
+    },
+  });
+
+  // Follow the shared view, skipping the update that this map itself reported
+  useEffect(() => {
+    const center = map.getCenter();
+    const same = map.getZoom() === view.zoom &&
+      Math.abs(center.lat - view.center[0]) < CENTER_TOLERANCE &&
+      Math.abs(center.lng - view.center[1]) < CENTER_TOLERANCE;
+    if (!same) map.setView(view.center, view.zoom, { animate: false });
+  }, [map, view]);
+
+  return null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Acoustic level statistics computed from LAeq readings
+ *
+ * Decibels are logarithmic, so the equivalent level of a set of readings is
+ * the energetic mean, 10·log10 of the mean of 10^(L/10), which is always at
+ * or above the arithmetic mean the published tables use. Percentile levels
+ * follow the Ln convention: L10 is the level exceeded 10% of the time.
+ */
+import { isNightHourIn, type LimitProfile } from './limitProfiles';
+
+export interface LevelStatistics {
+  /** Energetic mean */
+  Leq_dBA: number;
+  /** Level exceeded 10% of the time, the intrusive peaks */
+  L10_dBA: number;
+  L50_dBA: number;
+  /** Level exceeded 90% of the time, the background */
+  L90_dBA: number;
+}
+
+export interface PeriodLevels {
+  /** Leq of the limit profile's day */
+  Lday_dBA?: number;
+  /** Leq of the limit profile's night */
+  Lnight_dBA?: number;
+  /** Day-evening-night level; missing unless all three Lden periods have readings */
+  Lden_dBA?: number;
+}
+
+export interface StationAcoustics extends LevelStatistics, PeriodLevels {
+  Location: string;
+}
+
+export interface HourlyAcoustics extends LevelStatistics {
+  Hour: number;
+}
+
+/** Acoustic figures for the station rankings and hourly statistics */
+export interface AcousticTables {
+  stations: StationAcoustics[];
+  hourly: HourlyAcoustics[];
+}
+
+export const EMPTY_ACOUSTICS: AcousticTables = { stations: [], hourly: [] };
+
+export const LDEN_PERIODS = ['day', 'evening', 'night'] as const;
+export type LdenPeriod = typeof LDEN_PERIODS[number];
+
+/**
+ * Lden periods of the EU Environmental Noise Directive: day 07–19, evening
+ * 19–23 and night 23–07, with 5 and 10 dB added to evening and night levels
+ */
+export const LDEN_HOURS: Record<LdenPeriod, number> = { day: 12, evening: 4, night: 8 };
+export const LDEN_PENALTIES: Record<LdenPeriod, number> = { day: 0, evening: 5, night: 10 };
+
+export function ldenPeriodOf(hour: number): LdenPeriod {
+  if (hour >= 7 && hour < 19) return 'day';
+  if (hour >= 19 && hour < 23) return 'evening';
+  return 'night';
+}
+
+const toEnergy = (level: number) => 10 ** (level / 10);
+const toLevel = (energy: number) => 10 * Math.log10(energy);
+
+/**
+ * Energetic mean of levels in dB; NaN when there are none
+ */
+export function energeticMean(levels: ArrayLike<number>): number {
+  if (levels.length === 0) return NaN;
+  let energy = 0;
+  for (let i = 0; i < levels.length; i++) energy += toEnergy(levels[i]);
+  return toLevel(energy / levels.length);
+}
+
+/**
+ * Level exceeded `percentExceeded`% of the time, from ascending levels.
+ * Interpolates linearly between readings, like numpy's default percentile.
+ */
+export function percentileLevel(sorted: ArrayLike<number>, percentExceeded: number): number {
+  if (sorted.length === 0) return NaN;
+  const position = ((100 - percentExceeded) / 100) * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Leq and percentile levels of ascending levels
+ */
+export function levelStatistics(sorted: ArrayLike<number>): LevelStatistics {
+  return {
+    Leq_dBA: energeticMean(sorted),
+    L10_dBA: percentileLevel(sorted, 10),
+    L50_dBA: percentileLevel(sorted, 50),
+    L90_dBA: percentileLevel(sorted, 90),
+  };
+}
+
+/**
+ * Lden from the Leq of each period, weighted by the period's hours
+ */
+export function combineLden(levels: Record<LdenPeriod, number>): number {
+  let energy = 0;
+  for (const period of LDEN_PERIODS) {
+    energy += LDEN_HOURS[period] * toEnergy(levels[period] + LDEN_PENALTIES[period]);
+  }
+  return toLevel(energy / 24);
+}
+
+/**
+ * Lday and Lnight over the profile's day and night, and Lden, of levels read
+ * at the given hours of day
+ */
+export function periodLevels(levels: ArrayLike<number>, hours: ArrayLike<number>, limits: LimitProfile): PeriodLevels {
+  const halves = { day: { energy: 0, count: 0 }, night: { energy: 0, count: 0 } };
+  const lden: Record<LdenPeriod, { energy: number; count: number }> = {
+    day: { energy: 0, count: 0 },
+    evening: { energy: 0, count: 0 },
+    night: { energy: 0, count: 0 },
+  };
+  for (let i = 0; i < levels.length; i++) {
+    const energy = toEnergy(levels[i]);
+    const half = halves[isNightHourIn(limits, hours[i]) ? 'night' : 'day'];
+    half.energy += energy;
+    half.count++;
+    const period = lden[ldenPeriodOf(hours[i])];
+    period.energy += energy;
+    period.count++;
+  }
+
+  const leq = ({ energy, count }: { energy: number; count: number }) =>
+    count > 0 ? toLevel(energy / count) : undefined;
+  const [day, evening, night] = LDEN_PERIODS.map(period => leq(lden[period]));
+  return {
+    Lday_dBA: leq(halves.day),
+    Lnight_dBA: leq(halves.night),
+    Lden_dBA: day !== undefined && evening !== undefined && night !== undefined
+      ? combineLden({ day, evening, night })
+      : undefined,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Local history of AI outputs, kept in IndexedDB
+ *
+ * Every generated summary and policy list is stored with the prompt, the task
+ * inputs, the provider and model, and a timestamp. One version per subject can
+ * be starred as the one to use in reports.
+ */
+import { LLM_PROVIDERS, type LLMTask } from './llmProviders';
+import { parseSummaryClaims } from './groundedSummary';
+import { parsePolicyRecommendations } from './policyRecommendations';
+import { AI_SUBJECT_INDEX, openDatabase, promisify, STORES, transactionDone } from './localDatabase';
+
+const STORE = STORES.aiOutputs;
+
+export type AIOutputKind = LLMTask['kind'];
+
+export interface AIHistoryEntry {
+  id: string;
+  kind: AIOutputKind;
+  /** What the output is about: "overview" for the summary, the station name for policies */
+  subject: string;
+  /** Task inputs at generation time */
+  task: LLMTask;
+  prompt: string;
+  providerId: string;
+  model: string;
+  text: string;
+  /** Milliseconds since the epoch */
+  createdAt: number;
+  starred: boolean;
+}
+
+export type NewAIHistoryEntry = Omit<AIHistoryEntry, 'id' | 'kind' | 'createdAt' | 'starred'>;
+
+/**
+ * All stored versions for a subject, newest first
+ */
+export async function listAIHistory(kind: AIOutputKind, subject: string): Promise<AIHistoryEntry[]> {
+  const db = await openDatabase();
+  const index = db.transaction(STORE).objectStore(STORE).index(AI_SUBJECT_INDEX);
+  const entries = await promisify(index.getAll([kind, subject]) as IDBRequest<AIHistoryEntry[]>);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * The version to report for every subject of a kind: the starred one, else the latest
+ */
+export async function listReportVersions(kind: AIOutputKind): Promise<AIHistoryEntry[]> {
+  const db = await openDatabase();
+  const all = await promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<AIHistoryEntry[]>);
+  const bySubject = new Map<string, AIHistoryEntry>();
+  for (const entry of all.filter(e => e.kind === kind)) {
+    const current = bySubject.get(entry.subject);
+    if (!current || (entry.starred && !current.starred) ||
+        (entry.starred === current.starred && entry.createdAt > current.createdAt)) {
+      bySubject.set(entry.subject, entry);
+    }
+  }
+  return [...bySubject.values()].sort((a, b) => a.subject.localeCompare(b.subject));
+}
+
+/**
+ * Build a history entry without storing it
+ */
+export function createAIHistoryEntry(entry: NewAIHistoryEntry): AIHistoryEntry {
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    kind: entry.task.kind,
+    createdAt: Date.now(),
+    starred: false,
+  };
+}
+
+export async function saveAIHistoryEntry(entry: AIHistoryEntry): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(entry);
+  await transactionDone(tx);
+}
+
+/**
+ * Star one version, unstarring the rest of its subject; or clear the star
+ */
+export async function setAIHistoryStar(entry: AIHistoryEntry, starred: boolean): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const siblings = await promisify(
+    store.index(AI_SUBJECT_INDEX).getAll([entry.kind, entry.subject]) as IDBRequest<AIHistoryEntry[]>
+  );
+  for (const sibling of siblings) {
+    const shouldStar = starred && sibling.id === entry.id;
+    if (sibling.starred !== shouldStar) {
+      store.put({ ...sibling, starred: shouldStar });
+    }
+  }
+  await transactionDone(tx);
+}
+
+export async function deleteAIHistoryEntry(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Readable text of a version, for comparison. Outputs are stored as the
+ * model's JSON, so sentences and recommendations are extracted; versions that
+ * don't parse (e.g. free text saved by earlier releases) are returned as-is.
+ */
+export function historyText(entry: AIHistoryEntry): string {
+  try {
+    if (entry.kind === 'summary') {
+      return parseSummaryClaims(entry.text).map(claim => claim.text).join('\n');
+    }
+    return parsePolicyRecommendations(entry.text).recommendations
+      .map((r, i) => `${i + 1}. ${r.action} [${r.category}, −${r.expectedReductionDb} dB, ${r.costTier} cost, ${r.agency}, ${r.timeframe}]`)
+      .join('\n');
+  } catch {
+    return entry.text;
+  }
+}
+
+export const formatVersionTime = (createdAt: number) =>
+  new Date(createdAt).toLocaleString('en-IN', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Label of the provider that produced a version; stored ids may outlive their provider
+ */
+export const providerLabel = (providerId: string) =>
+  LLM_PROVIDERS.find(p => p.id === providerId)?.label ?? providerId;
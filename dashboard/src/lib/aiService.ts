@@ -0,0 +1,84 @@
+/**
+ * AI summaries and policy suggestions, generated through the selected LLM provider
+ */
+import {
+  buildGroundedSummaryPrompt,
+  checkClaims,
+  parseSummaryClaims,
+  type AnalysisTables,
+  type CheckedClaim,
+} from './groundedSummary';
+import { getLLMProvider, type LLMResult, type LLMTask } from './llmProviders';
+import { buildPolicyPrompt, parsePolicyRecommendations, type RecommendationResult } from './policyRecommendations';
+import type { PolicyLocation } from './stationProfile';
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  /** Receives the text generated so far while the response streams in */
+  onText?: (text: string) => void;
+}
+
+/** A finished output, with what produced it so it can be stored and regenerated */
+export interface GeneratedOutput extends LLMResult {
+  task: LLMTask;
+  prompt: string;
+  providerId: string;
+}
+
+export interface GroundedSummary extends GeneratedOutput {
+  claims: CheckedClaim[];
+}
+
+export interface PolicySuggestions extends GeneratedOutput, RecommendationResult {}
+
+/**
+ * Generate AI summary of overall findings, with each claim checked against the tables
+ */
+export async function generateAnalysisSummary(
+  providerId: string,
+  tables: AnalysisTables,
+  options: GenerateOptions = {}
+): Promise<GroundedSummary> {
+  const task: LLMTask = { kind: 'summary', tables };
+  const prompt = buildGroundedSummaryPrompt(tables);
+  const result = await getLLMProvider(providerId).generate({
+    task,
+    prompt,
+    temperature: 0.3,
+    responseFormat: 'json',
+    signal: options.signal,
+    onText: options.onText,
+  });
+  if (result.truncated) {
+    throw new Error('The summary was cut off at the output token limit before it was complete');
+  }
+  const claims = checkClaims(parseSummaryClaims(result.text), tables);
+  return { ...result, task, prompt, providerId, claims };
+}
+
+/**
+ * Generate structured policy recommendations for a specific location
+ */
+export async function generatePolicySuggestions(
+  providerId: string,
+  location: PolicyLocation,
+  options: GenerateOptions = {}
+): Promise<PolicySuggestions> {
+  const task: LLMTask = { kind: 'policy', location };
+  const prompt = buildPolicyPrompt(location);
+  const result = await getLLMProvider(providerId).generate({
+    task,
+    prompt,
+    responseFormat: 'json',
+    signal: options.signal,
+    onText: options.onText,
+  });
+  if (result.truncated) {
+    throw new Error('The recommendations were cut off at the output token limit before they were complete');
+  }
+  const { recommendations, errors } = parsePolicyRecommendations(result.text);
+  if (recommendations.length === 0) {
+    throw new Error('None of the AI recommendations matched the expected format');
+  }
+  return { ...result, task, prompt, providerId, recommendations, errors };
+}
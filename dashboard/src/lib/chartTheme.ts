@@ -0,0 +1,40 @@
+/**
+ * Shared colours and formatters for the interactive charts
+ */
+import type { ZoneType } from './stations';
+
+export const ZONE_COLORS: Record<ZoneType, string> = {
+  Industrial: '#7c3aed',
+  Commercial: '#2563eb',
+  Residential: '#f59e0b',
+  Silence: '#059669',
+};
+
+export const SEVERITY_COLORS: Record<string, string> = {
+  Extreme: '#7f1d1d',
+  Severe: '#b91c1c',
+  High: '#ea580c',
+  Moderate: '#f59e0b',
+  Low: '#65a30d',
+};
+
+export const LIMIT_COLORS = {
+  day: '#dc2626',
+  night: '#1e293b',
+};
+
+// Sequential ramp for exceedance percentages, from green (rarely exceeds) to dark red
+export const EXCEEDANCE_COLORS = ['#65a30d', '#f59e0b', '#ea580c', '#b91c1c', '#7f1d1d'];
+
+// Fixed exceedance bands (%) separating the colours above
+export const EXCEEDANCE_BAND_BREAKS = [25, 50, 75, 90];
+
+/**
+ * Colour for an exceedance percentage
+ */
+export function getExceedanceColor(percentage: number): string {
+  const band = EXCEEDANCE_BAND_BREAKS.filter(limit => percentage >= limit).length;
+  return EXCEEDANCE_COLORS[band];
+}
+
+export const formatDb = (value: number) => `${value.toFixed(1)} dBA`;
@@ -0,0 +1,194 @@
+/**
+ * District choropleth of exceedance rates
+ *
+ * Districts with monitoring stations take the pooled exceedance rate of those
+ * stations; districts without one are estimated by IDW from every station.
+ * Values are then grouped into colour classes by the selected method. The
+ * CPCB limit bands instead colour districts by how far their readings exceed
+ * the zone limits, in the notebook's severity bands.
+ */
+import type { ExceedanceSummary, ViolationSeverity } from './dataUtils';
+import { EXCEEDANCE_BAND_BREAKS, EXCEEDANCE_COLORS, SEVERITY_COLORS } from './chartTheme';
+import { DELHI_DISTRICTS, districtLabelPosition, findDistrictId } from './districts';
+import { haversineKm } from './interpolation';
+import { getStation } from './stations';
+import { SEVERITY_EXCESS_BREAKS } from './tableAggregation';
+import { SEVERITY_CATEGORIES } from './tableSchemas';
+
+export type ClassificationMethod = 'quantile' | 'equal-interval' | 'fixed-bands' | 'cpcb-bands';
+
+export const CLASSIFICATION_METHODS: { id: ClassificationMethod; label: string }[] = [
+  { id: 'quantile', label: 'Quantile' },
+  { id: 'equal-interval', label: 'Equal interval' },
+  { id: 'fixed-bands', label: 'Fixed exceedance bands' },
+  { id: 'cpcb-bands', label: 'CPCB limit bands' },
+];
+
+export interface ClassBin {
+  lower: number;
+  upper: number;
+  color: string;
+  /** Severity category of a CPCB limit band */
+  label?: string;
+}
+
+export interface DistrictDriver {
+  stationId: string;
+  percentage: number;
+  exceedanceCount: number;
+  totalCount: number;
+  /** Average excess (dB) of the station's readings above its zone limit; 0 when none exceed */
+  excess: number;
+  /** Share (0–1) of the district value contributed by this station */
+  weight: number;
+}
+
+export interface DistrictExceedance {
+  id: string;
+  name: string;
+  /** Exceedance percentage */
+  value: number;
+  /** Average excess (dB) over the zone limit of the readings that exceed it */
+  excess: number;
+  source: 'stations' | 'interpolated';
+  /** Stations behind the value, largest weight first */
+  drivers: DistrictDriver[];
+}
+
+const CLASS_COUNT = 5;
+
+const toDriver = (row: ExceedanceSummary, excess: number, weight: number): DistrictDriver => ({
+  stationId: row.Location,
+  percentage: row.Exceedance_Percentage,
+  exceedanceCount: row.Exceedance_Count,
+  totalCount: row.Total_Count,
+  excess,
+  weight,
+});
+
+/**
+ * Exceedance rate and average excess for every district
+ */
+export function computeDistrictExceedance(
+  rows: ExceedanceSummary[],
+  severity: ViolationSeverity[] = []
+): DistrictExceedance[] {
+  // Stations without a severity row have no readings above the limit
+  const excessByStation = new Map(severity.map(row => [row.Location, row.Avg_Excess_dBA]));
+  const excessOf = (row: ExceedanceSummary) => excessByStation.get(row.Location) ?? 0;
+  const located = rows.flatMap(row => {
+    const station = getStation(row.Location);
+    return station ? [{ row, station, districtId: findDistrictId(station.latitude, station.longitude) }] : [];
+  });
+
+  return DELHI_DISTRICTS.features.map(feature => {
+    const { id, name } = feature.properties;
+    const inside = located.filter(entry => entry.districtId === id);
+
+    if (inside.length > 0) {
+      // Pool the readings rather than averaging percentages, so busier stations count for more
+      const exceedances = inside.reduce((sum, { row }) => sum + row.Exceedance_Count, 0);
+      const total = inside.reduce((sum, { row }) => sum + row.Total_Count, 0);
+      // The excess is averaged over the exceeding readings, so it is pooled by their count
+      const excessSum = inside.reduce((sum, { row }) => sum + excessOf(row) * row.Exceedance_Count, 0);
+      return {
+        id,
+        name,
+        value: total > 0 ? (exceedances / total) * 100 : 0,
+        excess: exceedances > 0 ? excessSum / exceedances : 0,
+        source: 'stations' as const,
+        drivers: inside
+          .map(({ row }) => toDriver(row, excessOf(row), total > 0 ? row.Total_Count / total : 1 / inside.length))
+          .sort((a, b) => b.weight - a.weight),
+      };
+    }
+
+    const [latitude, longitude] = districtLabelPosition(feature.geometry.coordinates[0]);
+    const weighted = located.map(({ row, station }) => ({
+      row,
+      weight: 1 / Math.max(haversineKm(latitude, longitude, station.latitude, station.longitude), 1e-6) ** 2,
+    }));
+    const weightSum = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+
+    return {
+      id,
+      name,
+      value: weightSum > 0
+        ? weighted.reduce((sum, { row, weight }) => sum + weight * row.Exceedance_Percentage, 0) / weightSum
+        : NaN,
+      excess: weightSum > 0
+        ? weighted.reduce((sum, { row, weight }) => sum + weight * excessOf(row), 0) / weightSum
+        : NaN,
+      source: 'interpolated' as const,
+      drivers: weighted
+        .map(({ row, weight }) => toDriver(row, excessOf(row), weight / weightSum))
+        .sort((a, b) => b.weight - a.weight),
+    };
+  });
+}
+
+/**
+ * The value a classification method colours a district by
+ */
+export const districtValue = (district: DistrictExceedance, method: ClassificationMethod) =>
+  method === 'cpcb-bands' ? district.excess : district.value;
+
+/**
+ * Colours for `count` classes, spread across the exceedance ramp
+ */
+function rampColors(count: number): string[] {
+  if (count <= 1) return [EXCEEDANCE_COLORS[EXCEEDANCE_COLORS.length - 1]];
+  return Array.from({ length: count }, (_, i) =>
+    EXCEEDANCE_COLORS[Math.round((i / (count - 1)) * (EXCEEDANCE_COLORS.length - 1))]
+  );
+}
+
+/**
+ * Group values into colour classes
+ */
+export function classify(values: number[], method: ClassificationMethod): ClassBin[] {
+  // Values are excess over the zone limit (dB), banded like the severity table
+  if (method === 'cpcb-bands') {
+    const edges = [0, ...SEVERITY_EXCESS_BREAKS, Infinity];
+    return [...SEVERITY_CATEGORIES].reverse().map((label, i) => ({
+      lower: edges[i],
+      upper: edges[i + 1],
+      color: SEVERITY_COLORS[label],
+      label,
+    }));
+  }
+
+  // The dashboard's own exceedance-rate thresholds, as used by the station colours
+  if (method === 'fixed-bands') {
+    const edges = [0, ...EXCEEDANCE_BAND_BREAKS, 100];
+    return EXCEEDANCE_COLORS.map((color, i) => ({ lower: edges[i], upper: edges[i + 1], color }));
+  }
+
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [{ lower: min, upper: max, color: rampColors(1)[0] }];
+
+  let uppers: number[];
+  if (method === 'equal-interval') {
+    const step = (max - min) / CLASS_COUNT;
+    uppers = Array.from({ length: CLASS_COUNT }, (_, i) => (i === CLASS_COUNT - 1 ? max : min + step * (i + 1)));
+  } else {
+    const classes = Math.min(CLASS_COUNT, sorted.length);
+    uppers = Array.from({ length: classes }, (_, i) => sorted[Math.ceil(((i + 1) * sorted.length) / classes) - 1]);
+    // Tied values can produce repeated breaks
+    uppers = uppers.filter((upper, i) => i === 0 || upper > uppers[i - 1]);
+  }
+
+  const colors = rampColors(uppers.length);
+  return uppers.map((upper, i) => ({ lower: i === 0 ? min : uppers[i - 1], upper, color: colors[i] }));
+}
+
+/**
+ * Class a value falls into (the first bin whose upper bound it doesn't exceed)
+ */
+export function findBin(bins: ClassBin[], value: number): ClassBin | undefined {
+  if (!Number.isFinite(value)) return undefined;
+  return bins.find(bin => value <= bin.upper) ?? bins[bins.length - 1];
+}
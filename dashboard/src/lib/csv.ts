@@ -0,0 +1,94 @@
+/**
+ * RFC 4180 CSV tokenizer
+ *
+ * Handles quoted fields, escaped quotes (""), embedded commas and line
+ * breaks, CRLF/LF/CR line endings and a leading UTF-8 byte order mark.
+ */
+
+export interface CSVRecord {
+  /** 1-based line number in the source text where the record starts */
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Split CSV text into raw records. Blank lines are skipped; field values are
+ * returned exactly as written (minus the enclosing quotes).
+ */
+export function parseCSVRecords(csvText: string): CSVRecord[] {
+  const records: CSVRecord[] = [];
+  forEachCSVRecord(csvText, record => records.push(record));
+  return records;
+}
+
+/**
+ * Tokenize CSV text record by record, without keeping the records, for
+ * files too large to hold as arrays of fields
+ */
+export function forEachCSVRecord(csvText: string, onRecord: (record: CSVRecord) => void): void {
+  const text = csvText.charCodeAt(0) === 0xfeff ? csvText.slice(1) : csvText;
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRecord = () => {
+    // A record consisting of a single empty, unquoted field is a blank line
+    const isBlank = fields.length === 0 && field === '' && !fieldWasQuoted;
+    endField();
+    if (!isBlank) {
+      onRecord({ line: recordLine, fields });
+    }
+    fields = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+      fieldWasQuoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+
+  if (field !== '' || fields.length > 0 || fieldWasQuoted) {
+    endRecord();
+  }
+}
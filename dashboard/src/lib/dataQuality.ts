@@ -0,0 +1,226 @@
+/**
+ * Sensor data-quality checks for raw readings and the published tables
+ *
+ * Readings are checked per station in time order after the notebook's
+ * cleaning: levels outside what a sound level meter can measure outdoors,
+ * runs of identical values from a stuck sensor, and isolated spikes or dips
+ * far from both neighbours. Gaps much longer than a station's usual interval
+ * are dropouts; they lower coverage but flag no reading.
+ */
+import { formatHour } from './dataUtils';
+import type { AnalysisTables } from './groundedSummary';
+import type { ReadingSet } from './readings';
+import { getStation } from './stations';
+
+export const QUALITY_RULES = {
+  /** Levels a class 1 meter reports outdoors; zeros, underflow and 255 dB overflow fall outside */
+  plausibleRange: { min: 20, max: 140 },
+  /** Consecutive identical readings that suggest a stuck sensor */
+  stuckRun: 10,
+  /** Jump (dB) above or below both neighbours that marks an isolated spike */
+  spikeDb: 25,
+  /** A gap longer than this many usual intervals is a dropout */
+  dropoutIntervals: 3,
+} as const;
+
+/** Bit flags per reading */
+export const QUALITY_FLAGS = {
+  outOfRange: 1,
+  stuck: 2,
+  spike: 4,
+} as const;
+
+export const QUALITY_MODES = ['exclude', 'flag'] as const;
+/** Drop flagged readings before aggregation, or keep them and only report */
+export type QualityMode = typeof QUALITY_MODES[number];
+
+export interface StationQuality {
+  station: string;
+  /** Readings after cleaning */
+  readings: number;
+  /** Typical time between readings, in minutes */
+  intervalMinutes: number;
+  /** Readings the station's span would hold at its usual interval */
+  expectedReadings: number;
+  /** Unflagged readings as a share of the expected readings */
+  coveragePct: number;
+  outOfRange: number;
+  stuck: number;
+  spikes: number;
+  dropouts: number;
+  /** Longest dropout, in hours */
+  longestGapHours: number;
+}
+
+export interface DataQualityReport {
+  /** QUALITY_FLAGS bits, indexed like the readings */
+  flags: Uint8Array;
+  flagged: number;
+  stations: StationQuality[];
+}
+
+const MINUTE_MS = 60_000;
+
+const medianOf = (values: Float64Array) => {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort();
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const isPlausible = (level: number) =>
+  level >= QUALITY_RULES.plausibleRange.min && level <= QUALITY_RULES.plausibleRange.max;
+
+/**
+ * Check one station's readings, given as indices in time order
+ */
+function checkStation(readings: ReadingSet, indices: Uint32Array, flags: Uint8Array): Omit<StationQuality, 'station'> {
+  const { time, laeq } = readings;
+  const n = indices.length;
+
+  const gaps = new Float64Array(Math.max(n - 1, 0));
+  let gapCount = 0;
+  for (let k = 1; k < n; k++) {
+    const gap = time[indices[k]] - time[indices[k - 1]];
+    if (gap > 0) gaps[gapCount++] = gap;
+  }
+  const interval = medianOf(gaps.subarray(0, gapCount));
+  const dropoutGap = interval * QUALITY_RULES.dropoutIntervals;
+
+  let outOfRange = 0;
+  let dropouts = 0;
+  let longestGap = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    if (!isPlausible(laeq[i])) {
+      flags[i] |= QUALITY_FLAGS.outOfRange;
+      outOfRange++;
+    }
+    if (k > 0 && interval > 0) {
+      const gap = time[i] - time[indices[k - 1]];
+      if (gap > dropoutGap) {
+        dropouts++;
+        longestGap = Math.max(longestGap, gap);
+      }
+    }
+  }
+
+  // Runs of identical values without a dropout in between
+  let stuck = 0;
+  let runStart = 0;
+  for (let k = 1; k <= n; k++) {
+    const continues = k < n &&
+      laeq[indices[k]] === laeq[indices[runStart]] &&
+      !(interval > 0 && time[indices[k]] - time[indices[k - 1]] > dropoutGap);
+    if (continues) continue;
+    if (k - runStart >= QUALITY_RULES.stuckRun) {
+      for (let r = runStart; r < k; r++) flags[indices[r]] |= QUALITY_FLAGS.stuck;
+      stuck += k - runStart;
+    }
+    runStart = k;
+  }
+
+  // Isolated spikes and dips among plausible readings
+  let spikes = 0;
+  for (let k = 1; k < n - 1; k++) {
+    const [prev, current, next] = [laeq[indices[k - 1]], laeq[indices[k]], laeq[indices[k + 1]]];
+    if (!isPlausible(prev) || !isPlausible(current) || !isPlausible(next)) continue;
+    const up = current - prev >= QUALITY_RULES.spikeDb && current - next >= QUALITY_RULES.spikeDb;
+    const down = prev - current >= QUALITY_RULES.spikeDb && next - current >= QUALITY_RULES.spikeDb;
+    if (up || down) {
+      flags[indices[k]] |= QUALITY_FLAGS.spike;
+      spikes++;
+    }
+  }
+
+  let good = 0;
+  for (let k = 0; k < n; k++) if (flags[indices[k]] === 0) good++;
+  const span = n > 0 ? time[indices[n - 1]] - time[indices[0]] : 0;
+  const expectedReadings = interval > 0 ? Math.round(span / interval) + 1 : n;
+
+  return {
+    readings: n,
+    intervalMinutes: interval / MINUTE_MS,
+    expectedReadings,
+    coveragePct: expectedReadings > 0 ? Math.min(100, (good / expectedReadings) * 100) : 0,
+    outOfRange,
+    stuck,
+    spikes,
+    dropouts,
+    longestGapHours: longestGap / (60 * MINUTE_MS),
+  };
+}
+
+/**
+ * Flag readings and summarise quality per station. `order` holds the clean
+ * reading indices grouped by station and sorted by time within each.
+ */
+export function assessDataQuality(readings: ReadingSet, order: Uint32Array): DataQualityReport {
+  const flags = new Uint8Array(readings.length);
+  const stations: StationQuality[] = [];
+
+  let start = 0;
+  while (start < order.length) {
+    const stationIndex = readings.station[order[start]];
+    let end = start + 1;
+    while (end < order.length && readings.station[order[end]] === stationIndex) end++;
+    stations.push({
+      station: readings.stations[stationIndex],
+      ...checkStation(readings, order.subarray(start, end), flags),
+    });
+    start = end;
+  }
+
+  let flagged = 0;
+  for (const i of order) if (flags[i] !== 0) flagged++;
+  return { flags, flagged, stations };
+}
+
+/**
+ * The readings of `order` that passed every check
+ */
+export const withoutFlagged = (order: Uint32Array, flags: Uint8Array) => order.filter(i => flags[i] === 0);
+
+export interface PublishedQualityIssue {
+  table: keyof AnalysisTables;
+  /** Hour or station the row is for */
+  row: string;
+  message: string;
+}
+
+const formatLevel = (level: number) => `${parseFloat(level.toPrecision(4))} dBA`;
+
+/**
+ * Implausible figures in the published, already aggregated tables. Their
+ * readings can't be excluded any more, so these are only reported.
+ */
+export function checkPublishedTables(tables: AnalysisTables): PublishedQualityIssue[] {
+  const { min, max } = QUALITY_RULES.plausibleRange;
+  const issues: PublishedQualityIssue[] = [];
+
+  tables.hourly.forEach(row => {
+    const hour = formatHour(row.Hour);
+    if (row.Max_LAeq_dBA > max) {
+      issues.push({ table: 'hourly', row: hour, message: `Maximum ${formatLevel(row.Max_LAeq_dBA)} is above ${max} dBA` });
+    }
+    if (row.Min_LAeq_dBA < min) {
+      issues.push({ table: 'hourly', row: hour, message: `Minimum ${formatLevel(row.Min_LAeq_dBA)} is below ${min} dBA` });
+    }
+  });
+
+  tables.severity.forEach(row => {
+    // The excess is at least over the night limit, the lower of the two
+    const nightLimit = getStation(row.Location)?.limits.night;
+    if (nightLimit === undefined) return;
+    const level = nightLimit + row.Max_Excess_dBA;
+    if (level > max) {
+      issues.push({
+        table: 'severity',
+        row: row.Location,
+        message: `Maximum excess ${parseFloat(row.Max_Excess_dBA.toPrecision(4))} dB implies a reading of at least ${formatLevel(level)}`,
+      });
+    }
+  });
+
+  return issues;
+}
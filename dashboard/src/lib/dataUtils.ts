@@ -1,6 +1,7 @@
 /**
  * Data processing utilities for the noise pollution dashboard
  */
+import { formatRowError, parseTable, type TableResult, type TableSchema } from './tableSchemas';
 
 export interface StationRanking {
   Location: string;
@@ -36,36 +37,23 @@ export interface ViolationSeverity {
   Severity_Category: string;
 }
 
+export const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
 /**
- * Parse CSV text into array of objects
+ * Format an hour of the day as HH:00
  */
-export function parseCSV<T>(csvText: string): T[] {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) return [];
-  
-  const headers = lines[0].split(',').map(h => h.trim());
-  const data: T[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip empty lines
-    
-    const values = line.split(',').map(v => v.trim());
-    const row: Record<string, string | number> = {};
-    
-    headers.forEach((header, index) => {
-      const value = values[index] || ''; // Handle missing values
-      // Try to parse as number, otherwise keep as string
-      const numValue = Number(value);
-      row[header] = (value !== '' && !isNaN(numValue)) ? numValue : value;
-    });
-    
-    data.push(row as T);
-  }
-  
-  return data;
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
 }
 
+const HOUR_MS = 3_600_000;
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Hour of day (0–23) of a wall-clock timestamp in milliseconds
+ */
+export const hourOf = (time: number) => Math.floor((((time % DAY_MS) + DAY_MS) % DAY_MS) / HOUR_MS);
+
 /**
  * Calculate key metrics from station rankings
  */
@@ -82,7 +70,7 @@ export function calculateKeyMetrics(stationRankings: StationRanking[], exceedanc
   const loudestStation = stationRankings[0].Location;
   const highestAvgNoise = stationRankings[0].Average_LAeq_dBA;
   
-  // Calculate average violation rate across all stations
+  // Unweighted mean of the station rates, so each station counts equally
   const totalViolationRate = exceedanceSummary.reduce(
     (sum, station) => sum + station.Exceedance_Percentage, 
     0
@@ -97,9 +85,10 @@ export function calculateKeyMetrics(stationRankings: StationRanking[], exceedanc
 }
 
 /**
- * Fetch and parse CSV file from public directory
+ * Fetch a CSV table from the public directory and validate it against its schema
  */
-export async function fetchCSV<T>(filename: string): Promise<T[]> {
+export async function fetchCSV<T>(schema: TableSchema<T>): Promise<TableResult<T>> {
+  const { filename } = schema;
   try {
     // Use relative path that works in both dev and production
     const basePath = import.meta.env.BASE_URL || '/';
@@ -108,10 +97,18 @@ export async function fetchCSV<T>(filename: string): Promise<T[]> {
       throw new Error(`Failed to fetch ${filename}: ${response.status}`);
     }
     const csvText = await response.text();
-    return parseCSV<T>(csvText);
+    const result = parseTable(csvText, schema);
+    result.errors.forEach(error => {
+      const log = error.severity === 'error' ? console.error : console.warn;
+      log(`${filename}: ${formatRowError(error)}`);
+    });
+    return result;
   } catch (error) {
     console.error(`Error loading ${filename}:`, error);
-    return [];
+    return {
+      rows: [],
+      errors: [{ line: 0, severity: 'error', message: error instanceof Error ? error.message : String(error) }],
+    };
   }
 }
 
@@ -0,0 +1,91 @@
+/**
+ * Bundled NCT Delhi district outline
+ *
+ * A simplified approximation of the 11 revenue districts, shipped with the app
+ * so the maps have a basemap even when no tiles can be fetched.
+ */
+import type { FeatureCollection, Polygon } from 'geojson';
+import districtData from '../data/delhiDistricts.geo.json';
+
+export interface DistrictProperties {
+  id: string;
+  name: string;
+}
+
+export type DistrictCollection = FeatureCollection<Polygon, DistrictProperties>;
+
+const isPosition = (value: unknown) =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+// A ring repeats its first position at the end, so a triangle has four
+const isRing = (value: unknown) => Array.isArray(value) && value.length >= 4 && value.every(isPosition);
+
+function loadDistricts(): DistrictCollection {
+  return {
+    type: 'FeatureCollection',
+    features: districtData.features.map((feature, index) => {
+      const { id, name } = feature.properties;
+      const { type, coordinates } = feature.geometry;
+      if (typeof id !== 'string' || typeof name !== 'string') {
+        throw new Error(`Delhi districts: feature ${index} needs a string id and name`);
+      }
+      if (type !== 'Polygon' || !Array.isArray(coordinates) || coordinates.length === 0 || !coordinates.every(isRing)) {
+        throw new Error(`Delhi districts: "${id}" must be a Polygon of closed [lon, lat] rings`);
+      }
+      return {
+        type: 'Feature' as const,
+        properties: { id, name },
+        geometry: { type: 'Polygon' as const, coordinates },
+      };
+    }),
+  };
+}
+
+export const DELHI_DISTRICTS: DistrictCollection = loadDistricts();
+
+/**
+ * Label position for a district: the average of its outer ring vertices
+ */
+export function districtLabelPosition(ring: number[][]): [number, number] {
+  const vertices = ring.slice(0, -1);
+  const lat = vertices.reduce((sum, [, y]) => sum + y, 0) / vertices.length;
+  const lon = vertices.reduce((sum, [x]) => sum + x, 0) / vertices.length;
+  return [lat, lon];
+}
+
+/**
+ * Ray-casting point-in-polygon test against a GeoJSON ring ([lon, lat] pairs)
+ */
+export function pointInRing(latitude: number, longitude: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > latitude) !== (yj > latitude) && longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Id of the district containing a location, if any
+ */
+export function findDistrictId(latitude: number, longitude: number): string | undefined {
+  return DELHI_DISTRICTS.features.find(feature =>
+    pointInRing(latitude, longitude, feature.geometry.coordinates[0])
+  )?.properties.id;
+}
+
+/**
+ * [[south, west], [north, east]] around every district
+ */
+export function districtBounds(): [[number, number], [number, number]] {
+  const positions = DELHI_DISTRICTS.features.flatMap(feature => feature.geometry.coordinates[0]);
+  const lats = positions.map(([, lat]) => lat);
+  const lons = positions.map(([lon]) => lon);
+  return [
+    [Math.min(...lats), Math.min(...lons)],
+    [Math.max(...lats), Math.max(...lons)],
+  ];
+}
@@ -0,0 +1,18 @@
+/**
+ * Save generated text as a file in the browser
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled, or some browsers cancel the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * File-name-safe version of a label, e.g. "Anand Vihar" -> "anand-vihar"
+ */
+export const slugify = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
@@ -0,0 +1,71 @@
+/**
+ * Multi-hour forecast timelines
+ *
+ * Runs a prediction provider hour by hour, feeding each station's predicted
+ * level into the next hour's noise lag so the forecast evolves on its own
+ * rather than restarting from a fixed Quiet/Normal/Loud condition.
+ */
+import type { MapDataPoint, PredictionParams } from './predictionModel';
+import type { PredictionProvider, PredictionRequestOptions } from './predictionProviders';
+
+export type TimelineSpan = 'day' | 'week';
+
+export interface TimelineParams {
+  span: TimelineSpan;
+  /** Day to forecast for the 'day' span (0 = Monday); a week always starts on Monday */
+  dayOfWeek: number;
+  /** Previous-hour level for every station before the first frame */
+  initialNoiseLag: number;
+  seed: number;
+}
+
+export interface TimelineFrame {
+  hour: number;
+  dayOfWeek: number;
+  points: MapDataPoint[];
+}
+
+/**
+ * Hours covered by a timeline span, in order
+ */
+export function timelineSlots(span: TimelineSpan, dayOfWeek: number): { hour: number; dayOfWeek: number }[] {
+  const days = span === 'week' ? [0, 1, 2, 3, 4, 5, 6] : [dayOfWeek];
+  return days.flatMap(day => Array.from({ length: 24 }, (_, hour) => ({ hour, dayOfWeek: day })));
+}
+
+/**
+ * Compute every frame of a timeline, chaining predictions hour to hour
+ */
+export async function runForecastTimeline(
+  provider: PredictionProvider,
+  { span, dayOfWeek, initialNoiseLag, seed }: TimelineParams,
+  options: PredictionRequestOptions = {}
+): Promise<TimelineFrame[]> {
+  const slots = timelineSlots(span, dayOfWeek);
+  const frames: TimelineFrame[] = [];
+  let noiseLagByStation: Record<string, number> | undefined;
+
+  for (const [index, slot] of slots.entries()) {
+    if (options.signal?.aborted) {
+      throw new DOMException('Timeline request was cancelled', 'AbortError');
+    }
+
+    const params: PredictionParams = {
+      hour: slot.hour,
+      dayOfWeek: slot.dayOfWeek,
+      noiseLag: initialNoiseLag,
+      seed,
+      noiseLagByStation,
+    };
+    const points = await provider.predictMap(params, { signal: options.signal, baseline: options.baseline, limits: options.limits });
+    frames.push({ ...slot, points });
+
+    noiseLagByStation = Object.fromEntries(points.map(p => [p.location, p.predicted_noise]));
+    options.onProgress?.({
+      stage: `Forecasting ${index + 1} of ${slots.length} hours...`,
+      progress: Math.round(((index + 1) / slots.length) * 100),
+    });
+  }
+
+  return frames;
+}
@@ -1,29 +1,44 @@
 /**
- * Gemini AI API service for generating summaries and policy suggestions,
- * with dynamic model discovery.
+ * Gemini AI provider
+ *
+ * The model is resolved once per session: VITE_GEMINI_MODEL pins it outright,
+ * otherwise ListModels is called and the best match from a fixed preference
+ * list is chosen. Responses are streamed with streamGenerateContent, and
+ * rate-limit and server errors are retried with backoff.
+ * The base URL and fetch are injectable, so the provider can be pointed at a
+ * local mock server.
  */
-
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  throw new Error('Gemini API key not configured. Please set VITE_GEMINI_API_KEY in your .env file.');
-}
-
-const MODELS_LIST_URL = `https://generativelanguage.googleapis.com/v1beta/models?key=${GEMINI_API_KEY}`;
+import type { LLMProvider, LLMRequest, LLMResult } from './llmProviders';
+import { fetchWithRetry, type RetryOptions } from './httpRetry';
+import { readServerSentEvents } from './sseStream';
+
+export const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+// Preferred models, best first. Versioned variants (e.g. "-001") of a preferred
+// model rank with it.
+export const PREFERRED_GEMINI_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+  'gemini-1.5-flash',
+  'gemini-2.5-pro',
+  'gemini-1.5-pro',
+];
 
 /**
  * Type definitions
  */
 export interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{
-        text: string;
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string;
       }>;
     };
+    finishReason?: string;
   }>;
 }
 
-interface ModelInfo {
+export interface ModelInfo {
   name: string;                       // e.g. "models/gemini-1.5-flash-001"
   supportedGenerationMethods: string[]; // e.g. ["generateContent", ...]
   // other metadata fields omitted
@@ -33,130 +48,172 @@ interface ListModelsResponse {
   models: ModelInfo[];
 }
 
-/**
- * Fetch list of models available to your API key
- */
-async function listAvailableModels(): Promise<ModelInfo[]> {
-  const resp = await fetch(MODELS_LIST_URL, {
-    method: 'GET',
-  });
-  if (!resp.ok) {
-    const err = await resp.json().catch(() => null);
-    const msg = err?.error?.message || resp.statusText;
-    throw new Error(`Failed to list Gemini models: ${msg}`);
-  }
-  const data = (await resp.json()) as ListModelsResponse;
-  return data.models;
+export interface GeminiConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  /** Model to use without listing, e.g. "gemini-2.0-flash" */
+  model?: string;
+  preferredModels?: string[];
+  retry?: RetryOptions;
+  fetch?: typeof fetch;
 }
 
-/**
- * Pick a model that supports `generateContent`
- */
-async function pickModelWithGenerateContent(): Promise<string> {
-  const models = await listAvailableModels();
-  // Filter those models that list "generateContent" in supportedGenerationMethods
-  const usable = models.filter(m =>
-    Array.isArray(m.supportedGenerationMethods) &&
-    m.supportedGenerationMethods.includes('generateContent')
-  );
-  if (usable.length === 0) {
-    throw new Error('No model supports generateContent in this project.');
-  }
-  // You could apply further heuristic or priority: choose the one with highest version, etc.
-  // For now, pick the first one (or you can sort)
-  return usable[0].name;  // e.g. "models/gemini-1.5-flash-001"
-}
+const stripPrefix = (name: string) => name.replace(/^models\//, '');
+
+// Experimental and preview builds can disappear without notice
+const isUnstable = (name: string) => /exp|preview/i.test(name);
 
 /**
- * Call Gemini API with prompt, using a discovered model
+ * Order models that support generateContent: preferred models first (in list
+ * order, exact name before versioned variants), then stable before unstable,
+ * then by name descending so newer versions come first.
  */
-async function callGeminiAPI(prompt: string): Promise<string> {
-  const modelName = await pickModelWithGenerateContent();  // dynamic resolution
-  const url = `https://generativelanguage.googleapis.com/v1beta/${modelName}:generateContent?key=${GEMINI_API_KEY}`;
-
-  const body = {
-    contents: [
-      {
-        parts: [
-          {
-            text: prompt,
-          },
-        ],
-      },
-    ],
-    generationConfig: {
-      temperature: 0.7,
-      maxOutputTokens: 500,
-      topP: 0.95,
-      topK: 40,
-    },
-    safetySettings: [
-      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-      { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-      { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
-    ],
+export function rankGeminiModels(models: ModelInfo[], preferred: string[] = PREFERRED_GEMINI_MODELS): string[] {
+  const preferenceIndex = (name: string) => {
+    const index = preferred.findIndex(p => name === p || name.startsWith(`${p}-0`));
+    return index === -1 ? preferred.length : index;
   };
 
-  const resp = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!resp.ok) {
-    const err = await resp.json().catch(() => null);
-    const msg = err?.error?.message || resp.statusText;
-    throw new Error(`Gemini API error: ${msg}`);
-  }
+  return models
+    .filter(m => Array.isArray(m.supportedGenerationMethods) && m.supportedGenerationMethods.includes('generateContent'))
+    .map(m => stripPrefix(m.name))
+    .sort((a, b) =>
+      preferenceIndex(a) - preferenceIndex(b) ||
+      Number(!preferred.includes(a)) - Number(!preferred.includes(b)) ||
+      Number(isUnstable(a)) - Number(isUnstable(b)) ||
+      b.localeCompare(a)
+    );
+}
 
-  const data = (await resp.json()) as GeminiResponse;
-  if (!data.candidates || data.candidates.length === 0) {
-    throw new Error('No response returned from Gemini API');
-  }
-  return data.candidates[0].content.parts[0].text.trim();
+async function readError(resp: Response): Promise<string> {
+  const err = await resp.json().catch(() => null);
+  return err?.error?.message || resp.statusText || `HTTP ${resp.status}`;
 }
 
 /**
- * Generate AI summary of overall findings
+ * Gemini provider. Without a key it stays listed but reports itself unconfigured.
  */
-export async function generateAnalysisSummary(keyMetrics: {
-  loudestStation: string;
-  highestAvgNoise: number;
-  avgViolationRate: number;
-}): Promise<string> {
-  const prompt = `You are an environmental analyst. Based on the following noise pollution data from Delhi NCR:
+export function createGeminiProvider({
+  apiKey = import.meta.env.VITE_GEMINI_API_KEY,
+  baseUrl = import.meta.env.VITE_GEMINI_API_BASE || GEMINI_API_BASE,
+  model = import.meta.env.VITE_GEMINI_MODEL,
+  preferredModels = PREFERRED_GEMINI_MODELS,
+  retry = {},
+  fetch: fetchFn = (...args) => fetch(...args),
+}: GeminiConfig = {}): LLMProvider {
+  const retryOptions: RetryOptions = { ...retry, fetch: fetchFn };
+  // Resolved once per provider instance, i.e. once per session
+  let modelPromise: Promise<string> | null = model ? Promise.resolve(stripPrefix(model)) : null;
+
+  /**
+   * Fetch list of models available to the API key and pick the best ranked one
+   */
+  async function resolveModel(key: string, signal?: AbortSignal): Promise<string> {
+    const resp = await fetchWithRetry(`${baseUrl}/models?key=${key}`, { method: 'GET', signal }, retryOptions);
+    if (!resp.ok) {
+      throw new Error(`Failed to list Gemini models: ${await readError(resp)}`);
+    }
+    const data = (await resp.json()) as ListModelsResponse;
+    const [best] = rankGeminiModels(data.models ?? [], preferredModels);
+    if (!best) {
+      throw new Error('No model supports generateContent in this project.');
+    }
+    return best;
+  }
 
-- Loudest Station: ${keyMetrics.loudestStation}
-- Highest Average Noise Level: ${keyMetrics.highestAvgNoise} dBA
-- Average Violation Rate: ${keyMetrics.avgViolationRate}%
+  /**
+   * The session's model. The lookup is shared, so it runs without any caller's
+   * signal; each caller only stops waiting for it when its own signal fires.
+   */
+  function getModel(key: string, signal?: AbortSignal): Promise<string> {
+    if (!modelPromise) {
+      modelPromise = resolveModel(key);
+      // Don't cache failures; the next call lists again
+      modelPromise.catch(() => { modelPromise = null; });
+    }
+    if (!signal) return modelPromise;
+    const shared = modelPromise;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new DOMException('Generation was cancelled', 'AbortError'));
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
 
-Generate a professional 3–4 sentence summary of the key findings. Focus on the severity of the noise pollution problem and its implications for public health and policy. Be concise and data-driven.`;
+  /**
+   * Stream a response to the prompt from the session's model
+   */
+  async function callGeminiAPI(key: string, request: LLMRequest): Promise<LLMResult> {
+    const modelName = await getModel(key, request.signal);
+    const url = `${baseUrl}/models/${modelName}:streamGenerateContent?alt=sse&key=${key}`;
+
+    const body = {
+      contents: [
+        {
+          parts: [
+            {
+              text: request.prompt,
+            },
+          ],
+        },
+      ],
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        maxOutputTokens: request.maxOutputTokens ?? 2048,
+        topP: 0.95,
+        topK: 40,
+        ...(request.responseFormat === 'json' && { responseMimeType: 'application/json' }),
+      },
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
+        { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
+      ],
+    };
 
-  return callGeminiAPI(prompt);
-}
+    const resp = await fetchWithRetry(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    }, retryOptions);
+
+    if (!resp.ok) {
+      throw new Error(`Gemini API error (${modelName}): ${await readError(resp)}`);
+    }
+
+    let text = '';
+    let truncated = false;
+    for await (const data of readServerSentEvents(resp)) {
+      const candidate = (JSON.parse(data) as GeminiResponse).candidates?.[0];
+      if (candidate?.finishReason === 'MAX_TOKENS') truncated = true;
+      const delta = candidate?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+      if (delta) {
+        text += delta;
+        request.onText?.(text);
+      }
+    }
+
+    if (!text.trim()) {
+      throw new Error('No response returned from Gemini API');
+    }
+    return { text: text.trim(), model: modelName, truncated };
+  }
 
-/**
- * Generate policy suggestions for a specific location
- */
-export async function generatePolicySuggestions(location: {
-  name: string;
-  zoneType: string;
-  violationRate: number;
-  avgNoise: number;
-  limit: number;
-}): Promise<string> {
-  const prompt = `You are an urban planning and environmental policy expert. Generate 3–5 specific, actionable policy recommendations to reduce noise pollution for the following location:
-
-Location: ${location.name}
-Zone Type: ${location.zoneType}
-Current Average Noise: ${location.avgNoise} dBA
-Legal Limit: ${location.limit} dBA
-Violation Rate: ${location.violationRate}%
-
-Provide practical, implementable solutions that are specific to this zone type and violation severity. Format as a numbered list.`;
-
-  return callGeminiAPI(prompt);
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    description: 'Gemini generateContent API',
+    configured: !!apiKey,
+    async generate(request) {
+      if (!apiKey) {
+        throw new Error('Gemini API key not configured. Please set VITE_GEMINI_API_KEY in your .env file.');
+      }
+      return callGeminiAPI(apiKey, request);
+    },
+  };
 }
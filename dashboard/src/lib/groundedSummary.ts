@@ -0,0 +1,261 @@
+/**
+ * Grounded analysis summaries
+ *
+ * The prompt carries every row of the four tables, and the model answers with
+ * JSON claims that cite the table cells they rely on. Each citation is then
+ * checked against the tables, so claims that don't match the data are flagged.
+ */
+import {
+  formatHour,
+  type ExceedanceSummary,
+  type HourlyStatistics,
+  type StationRanking,
+  type ViolationSeverity,
+} from './dataUtils';
+import {
+  EXCEEDANCE_SUMMARY_SCHEMA,
+  HOURLY_STATISTICS_SCHEMA,
+  STATION_RANKINGS_SCHEMA,
+  VIOLATION_SEVERITY_SCHEMA,
+  type TableSchema,
+} from './tableSchemas';
+import { getStationName } from './stations';
+import { parseModelJson, partialStringValues } from './jsonOutput';
+
+export interface AnalysisTables {
+  rankings: StationRanking[];
+  exceedance: ExceedanceSummary[];
+  severity: ViolationSeverity[];
+  hourly: HourlyStatistics[];
+}
+
+export type TableKey = keyof AnalysisTables;
+
+export interface ClaimReference {
+  table: TableKey;
+  /** Station id, or the hour (0–23) for the hourly table */
+  row: string;
+  /** Column name, e.g. "Average_LAeq_dBA" */
+  metric: string;
+  /** Value the claim states for that cell */
+  value: number;
+}
+
+export interface SummaryClaim {
+  text: string;
+  references: ClaimReference[];
+}
+
+export interface ReferenceCheck {
+  reference: ClaimReference;
+  /** Value in the table, when the cited cell exists */
+  actual?: number;
+  status: 'match' | 'mismatch' | 'missing';
+}
+
+export interface CheckedClaim extends SummaryClaim {
+  checks: ReferenceCheck[];
+  /** supported: every citation matches; contradicted: some don't; unsupported: no usable citation */
+  status: 'supported' | 'contradicted' | 'unsupported';
+}
+
+const TABLE_SCHEMAS_BY_KEY: { [K in TableKey]: TableSchema<AnalysisTables[K][number]> } = {
+  rankings: STATION_RANKINGS_SCHEMA,
+  exceedance: EXCEEDANCE_SUMMARY_SCHEMA,
+  severity: VIOLATION_SEVERITY_SCHEMA,
+  hourly: HOURLY_STATISTICS_SCHEMA,
+};
+
+export const TABLE_TITLES: Record<TableKey, string> = {
+  rankings: STATION_RANKINGS_SCHEMA.title,
+  exceedance: EXCEEDANCE_SUMMARY_SCHEMA.title,
+  severity: VIOLATION_SEVERITY_SCHEMA.title,
+  hourly: HOURLY_STATISTICS_SCHEMA.title,
+};
+
+// Largest difference (dB, %, or 1% of counts) still treated as the same value
+const ABSOLUTE_TOLERANCE = 0.5;
+const RELATIVE_TOLERANCE = 0.01;
+
+type TableRow = AnalysisTables[TableKey][number];
+
+/**
+ * Whether a table row is the one a reference's row key points at: the station
+ * id (case-insensitive), or the hour for the hourly table
+ */
+export function matchesRowKey(table: TableKey, row: TableRow, key: string): boolean {
+  if (table === 'hourly') {
+    return key.trim() !== '' && (row as HourlyStatistics).Hour === Number(key);
+  }
+  return (row as { Location: string }).Location.toLowerCase() === key.toLowerCase();
+}
+
+function findRow(tables: AnalysisTables, table: TableKey, key: string): Record<string, unknown> | undefined {
+  const rows: TableRow[] = tables[table];
+  return rows.find(row => matchesRowKey(table, row, key)) as Record<string, unknown> | undefined;
+}
+
+/**
+ * Display label for a reference, e.g. "Station Rankings · ITO · Average_LAeq_dBA"
+ */
+export function describeReference({ table, row, metric }: ClaimReference): string {
+  const rowLabel = table === 'hourly' ? formatHour(Number(row)) : getStationName(row);
+  return `${TABLE_TITLES[table]} · ${rowLabel} · ${metric}`;
+}
+
+function tableAsCsv(table: TableKey, rows: object[]): string {
+  const columns = Object.keys(TABLE_SCHEMAS_BY_KEY[table].columns);
+  const lines = rows.map(row => columns.map(c => (row as Record<string, unknown>)[c]).join(','));
+  return [`## ${table} (${TABLE_TITLES[table]})`, columns.join(','), ...lines].join('\n');
+}
+
+/**
+ * Prompt asking for a grounded summary of all four tables
+ */
+export function buildGroundedSummaryPrompt(tables: AnalysisTables): string {
+  const data = (Object.keys(TABLE_SCHEMAS_BY_KEY) as TableKey[])
+    .map(table => tableAsCsv(table, tables[table]))
+    .join('\n\n');
+
+  return `You are an environmental analyst. Below are the complete noise monitoring tables for Delhi NCR (LAeq in dBA, limits are CPCB day/night limits, Exceedance_Percentage is the share of readings above the applicable limit). Station ids are in the Location column; the hourly table is averaged over all stations.
+
+${data}
+
+Write a professional 3–5 sentence summary of the key findings, focusing on the severity of the problem and its implications for public health and policy. Use only figures that appear in the tables.
+
+Respond with JSON only, in this exact shape:
+{"claims": [{"text": "<one sentence>", "references": [{"table": "rankings|exceedance|severity|hourly", "row": "<Location id, or hour 0-23 for hourly>", "metric": "<column name>", "value": <number stated in the sentence>}]}]}
+
+Every number in a sentence must have a reference to the table cell it comes from.`;
+}
+
+/**
+ * Parse the model's JSON answer, tolerating Markdown code fences around it
+ */
+export function parseSummaryClaims(text: string): SummaryClaim[] {
+  const data = parseModelJson(text, 'summary');
+  const claims = (data as { claims?: unknown })?.claims;
+  if (!Array.isArray(claims)) {
+    throw new Error('The AI summary is missing its "claims" list');
+  }
+
+  return claims.flatMap((claim): SummaryClaim[] => {
+    const { text: claimText, references } = (claim ?? {}) as { text?: unknown; references?: unknown };
+    if (typeof claimText !== 'string' || !claimText.trim()) return [];
+    const refs = Array.isArray(references) ? references : [];
+    return [{
+      text: claimText.trim(),
+      references: refs.flatMap((ref): ClaimReference[] => {
+        const { table, row, metric, value } = (ref ?? {}) as Record<string, unknown>;
+        if (typeof table !== 'string' || !(table in TABLE_SCHEMAS_BY_KEY)) return [];
+        if ((typeof row !== 'string' && typeof row !== 'number') || typeof metric !== 'string') return [];
+        const numeric = typeof value === 'number' ? value : Number(value);
+        if (!Number.isFinite(numeric)) return [];
+        return [{ table: table as TableKey, row: String(row), metric, value: numeric }];
+      }),
+    }];
+  });
+}
+
+/**
+ * Sentences already complete in a partially streamed JSON answer, for display
+ * before the full answer can be parsed and checked
+ */
+export function partialClaimTexts(partialJson: string): string[] {
+  return partialStringValues(partialJson, 'text');
+}
+
+/**
+ * Compare every cited value with the tables
+ */
+export function checkClaims(claims: SummaryClaim[], tables: AnalysisTables): CheckedClaim[] {
+  return claims.map(claim => {
+    const checks = claim.references.map((reference): ReferenceCheck => {
+      const cell = findRow(tables, reference.table, reference.row)?.[reference.metric];
+      if (typeof cell !== 'number') {
+        return { reference, status: 'missing' };
+      }
+      const tolerance = Math.max(ABSOLUTE_TOLERANCE, Math.abs(cell) * RELATIVE_TOLERANCE);
+      return {
+        reference,
+        actual: cell,
+        status: Math.abs(cell - reference.value) <= tolerance ? 'match' : 'mismatch',
+      };
+    });
+
+    const status = checks.some(c => c.status === 'mismatch')
+      ? 'contradicted'
+      : checks.some(c => c.status === 'match')
+        ? 'supported'
+        : 'unsupported';
+
+    return { ...claim, checks, status };
+  });
+}
+
+const round = (value: number, decimals = 1) => parseFloat(value.toFixed(decimals));
+
+/**
+ * Claims written directly from the tables, for the offline template provider
+ */
+export function buildTemplateClaims({ rankings, exceedance, severity, hourly }: AnalysisTables): SummaryClaim[] {
+  const claims: SummaryClaim[] = [];
+  const maxBy = <T>(rows: T[], value: (row: T) => number) =>
+    rows.reduce((best, row) => (value(row) > value(best) ? row : best));
+
+  if (rankings.length > 0) {
+    const loudest = maxBy(rankings, r => r.Average_LAeq_dBA);
+    const quietest = maxBy(rankings, r => -r.Average_LAeq_dBA);
+    claims.push({
+      text: `${getStationName(loudest.Location)} is the loudest station, averaging ${round(loudest.Average_LAeq_dBA)} dBA against a ${loudest.Day_Limit_dBA} dBA daytime limit.`,
+      references: [
+        { table: 'rankings', row: loudest.Location, metric: 'Average_LAeq_dBA', value: round(loudest.Average_LAeq_dBA) },
+        { table: 'rankings', row: loudest.Location, metric: 'Day_Limit_dBA', value: loudest.Day_Limit_dBA },
+      ],
+    });
+    if (quietest !== loudest) {
+      claims.push({
+        text: `Even the quietest station, ${getStationName(quietest.Location)}, averages ${round(quietest.Average_LAeq_dBA)} dBA.`,
+        references: [
+          { table: 'rankings', row: quietest.Location, metric: 'Average_LAeq_dBA', value: round(quietest.Average_LAeq_dBA) },
+        ],
+      });
+    }
+  }
+
+  if (exceedance.length > 0) {
+    const worst = maxBy(exceedance, r => r.Exceedance_Percentage);
+    claims.push({
+      text: `${getStationName(worst.Location)} breaches its limit most often, in ${round(worst.Exceedance_Percentage)}% of ${worst.Total_Count.toLocaleString('en-IN')} readings.`,
+      references: [
+        { table: 'exceedance', row: worst.Location, metric: 'Exceedance_Percentage', value: round(worst.Exceedance_Percentage) },
+        { table: 'exceedance', row: worst.Location, metric: 'Total_Count', value: worst.Total_Count },
+      ],
+    });
+  }
+
+  if (severity.length > 0) {
+    const severest = maxBy(severity, r => r.Avg_Excess_dBA);
+    claims.push({
+      text: `The largest violations are at ${getStationName(severest.Location)}, exceeding the limit by ${round(severest.Avg_Excess_dBA)} dBA on average and by up to ${round(severest.Max_Excess_dBA)} dBA.`,
+      references: [
+        { table: 'severity', row: severest.Location, metric: 'Avg_Excess_dBA', value: round(severest.Avg_Excess_dBA) },
+        { table: 'severity', row: severest.Location, metric: 'Max_Excess_dBA', value: round(severest.Max_Excess_dBA) },
+      ],
+    });
+  }
+
+  if (hourly.length > 0) {
+    const peak = maxBy(hourly, r => r.Average_LAeq_dBA);
+    const trough = maxBy(hourly, r => -r.Average_LAeq_dBA);
+    claims.push({
+      text: `Across stations, noise peaks at ${formatHour(peak.Hour)} (${round(peak.Average_LAeq_dBA)} dBA) and is lowest at ${formatHour(trough.Hour)} (${round(trough.Average_LAeq_dBA)} dBA), so night-time relief is limited.`,
+      references: [
+        { table: 'hourly', row: String(peak.Hour), metric: 'Average_LAeq_dBA', value: round(peak.Average_LAeq_dBA) },
+        { table: 'hourly', row: String(trough.Hour), metric: 'Average_LAeq_dBA', value: round(trough.Average_LAeq_dBA) },
+      ],
+    });
+  }
+
+  return claims;
+}
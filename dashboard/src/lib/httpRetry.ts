@@ -0,0 +1,74 @@
+/**
+ * fetch with exponential backoff for rate limits and server errors
+ */
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each further retry */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay, including Retry-After */
+  maxDelayMs?: number;
+  fetch?: typeof fetch;
+}
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Resolve after `ms`, or reject with an AbortError as soon as the signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request was cancelled', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request was cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), if any
+ */
+function retryAfterMs(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * fetch that retries 429 and 5xx responses. The last response is returned
+ * as-is once retries run out, so callers handle errors as usual.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  { maxRetries = 3, baseDelayMs = 500, maxDelayMs = 10000, fetch: fetchFn = fetch }: RetryOptions = {}
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetchFn(url, init);
+    if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response;
+    }
+    const delay = Math.min(retryAfterMs(response) ?? baseDelayMs * 2 ** attempt, maxDelayMs);
+    await sleep(delay, init.signal);
+  }
+}
+
+/**
+ * Whether an error comes from an aborted request, i.e. the user cancelled it
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
@@ -0,0 +1,124 @@
+/**
+ * Spatial interpolation of noise levels between monitoring stations
+ *
+ * Inverse distance weighting (IDW) over great-circle distances, plus helpers
+ * to sample the surface on a regular raster or a hexagonal grid.
+ */
+
+export interface SamplePoint {
+  latitude: number;
+  longitude: number;
+  value: number;
+}
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface HexCell {
+  center: [number, number];
+  /** Six [lat, lng] vertices */
+  vertices: [number, number][];
+  value: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * IDW estimate at a location. Returns the sample value exactly when the
+ * location coincides with a sample.
+ */
+export function interpolateIdw(samples: SamplePoint[], latitude: number, longitude: number, power = 2): number {
+  let weightSum = 0;
+  let valueSum = 0;
+
+  for (const sample of samples) {
+    const distance = haversineKm(latitude, longitude, sample.latitude, sample.longitude);
+    if (distance < 1e-6) return sample.value;
+    const weight = 1 / distance ** power;
+    weightSum += weight;
+    valueSum += weight * sample.value;
+  }
+
+  return weightSum > 0 ? valueSum / weightSum : NaN;
+}
+
+/**
+ * Bounding box around the samples, padded by `padding` degrees on every side
+ */
+export function samplesBounds(samples: SamplePoint[], padding = 0.08): GeoBounds {
+  const lats = samples.map(s => s.latitude);
+  const lons = samples.map(s => s.longitude);
+  return {
+    south: Math.min(...lats) - padding,
+    west: Math.min(...lons) - padding,
+    north: Math.max(...lats) + padding,
+    east: Math.max(...lons) + padding,
+  };
+}
+
+/**
+ * Sample the IDW surface on a regular grid. Row 0 is the northern edge, so
+ * the result maps directly onto image pixels.
+ */
+export function interpolateGrid(
+  samples: SamplePoint[],
+  bounds: GeoBounds,
+  columns: number,
+  rows: number,
+  power = 2
+): number[][] {
+  const grid: number[][] = [];
+  for (let row = 0; row < rows; row++) {
+    const latitude = bounds.north - ((row + 0.5) / rows) * (bounds.north - bounds.south);
+    const values: number[] = [];
+    for (let col = 0; col < columns; col++) {
+      const longitude = bounds.west + ((col + 0.5) / columns) * (bounds.east - bounds.west);
+      values.push(interpolateIdw(samples, latitude, longitude, power));
+    }
+    grid.push(values);
+  }
+  return grid;
+}
+
+/**
+ * Cover the bounds with pointy-top hexagons of the given circumradius (km)
+ * and estimate the surface at each centre
+ */
+export function interpolateHexGrid(samples: SamplePoint[], bounds: GeoBounds, radiusKm: number, power = 2): HexCell[] {
+  const midLat = (bounds.north + bounds.south) / 2;
+  const kmPerDegLat = (Math.PI / 180) * EARTH_RADIUS_KM;
+  const kmPerDegLon = kmPerDegLat * Math.cos((midLat * Math.PI) / 180);
+
+  const rLat = radiusKm / kmPerDegLat;
+  const rLon = radiusKm / kmPerDegLon;
+  const colStep = Math.sqrt(3) * rLon;
+  const rowStep = 1.5 * rLat;
+
+  const cells: HexCell[] = [];
+  for (let row = 0, lat = bounds.south; lat <= bounds.north + rowStep; row++, lat += rowStep) {
+    const offset = row % 2 === 0 ? 0 : colStep / 2;
+    for (let lon = bounds.west + offset; lon <= bounds.east + colStep; lon += colStep) {
+      const vertices = Array.from({ length: 6 }, (_, i) => {
+        const angle = (Math.PI / 180) * (60 * i - 30);
+        return [lat + rLat * Math.sin(angle), lon + rLon * Math.cos(angle)] as [number, number];
+      });
+      cells.push({ center: [lat, lon], vertices, value: interpolateIdw(samples, lat, lon, power) });
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,189 @@
+/**
+ * What-if interventions on a prediction run
+ *
+ * Each station's level is split into source shares of sound energy (traffic,
+ * horns, construction, everything else) that depend on its zone type. An
+ * intervention scales the energy of the sources it acts on, and the change in
+ * level is 10·log10 of the remaining energy. The shares are planning
+ * assumptions for Delhi NCR, not measurements.
+ */
+import { ZONE_TYPES } from './tableSchemas';
+import type { ZoneType } from './stations';
+import type { MapDataPoint } from './predictionModel';
+
+export interface SourceShares {
+  traffic: number;
+  horns: number;
+  construction: number;
+  other: number;
+}
+
+// Fractions of a station's sound energy by source; each row sums to 1
+export const ZONE_SOURCE_SHARES: Record<ZoneType, SourceShares> = {
+  Commercial: { traffic: 0.5, horns: 0.3, construction: 0.1, other: 0.1 },
+  Residential: { traffic: 0.45, horns: 0.2, construction: 0.15, other: 0.2 },
+  Industrial: { traffic: 0.35, horns: 0.1, construction: 0.1, other: 0.45 },
+  Silence: { traffic: 0.5, horns: 0.25, construction: 0.1, other: 0.15 },
+};
+
+// Used for zone types a backend reports that the registry doesn't know
+const DEFAULT_SOURCE_SHARES = ZONE_SOURCE_SHARES.Residential;
+
+// Share of horn energy removed by a ban, allowing for imperfect compliance
+export const HONKING_BAN_COMPLIANCE = 0.7;
+
+/** Interventions act on the listed station ids */
+export type Intervention =
+  | {
+      kind: 'traffic';
+      stations: string[];
+      /** Cut in traffic volume, 0–100 */
+      reductionPct: number;
+    }
+  | { kind: 'honking-ban'; stations: string[] }
+  | {
+      kind: 'construction-curfew';
+      stations: string[];
+      /** No construction from startHour up to endHour, wrapping past midnight */
+      startHour: number;
+      endHour: number;
+    };
+
+export type InterventionKind = Intervention['kind'];
+
+export const INTERVENTION_LABELS: Record<InterventionKind, string> = {
+  traffic: 'Traffic reduction',
+  'honking-ban': 'Honking ban',
+  'construction-curfew': 'Construction curfew',
+};
+
+/**
+ * A new intervention of a kind with its default settings
+ */
+export function createIntervention(kind: InterventionKind, stations: string[]): Intervention {
+  switch (kind) {
+    case 'traffic':
+      return { kind, stations, reductionPct: 30 };
+    case 'honking-ban':
+      return { kind, stations };
+    case 'construction-curfew':
+      return { kind, stations, startHour: 22, endHour: 6 };
+  }
+}
+
+/**
+ * True when `hour` falls inside a curfew window
+ */
+export function inCurfew(hour: number, startHour: number, endHour: number): boolean {
+  if (startHour === endHour) return true;
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+/**
+ * One-line description of an intervention's settings
+ */
+export function describeIntervention(intervention: Intervention): string {
+  switch (intervention.kind) {
+    case 'traffic':
+      return `${INTERVENTION_LABELS.traffic} of ${intervention.reductionPct}%`;
+    case 'honking-ban':
+      return INTERVENTION_LABELS['honking-ban'];
+    case 'construction-curfew':
+      return `${INTERVENTION_LABELS['construction-curfew']} ${intervention.startHour}:00–${intervention.endHour}:00`;
+  }
+}
+
+const sourceShares = (zoneType: string): SourceShares =>
+  (ZONE_TYPES as readonly string[]).includes(zoneType)
+    ? ZONE_SOURCE_SHARES[zoneType as ZoneType]
+    : DEFAULT_SOURCE_SHARES;
+
+/**
+ * Change in level (dB, ≤ 0) from the interventions acting on one station at an hour
+ */
+export function interventionDeltaDb(zoneType: string, interventions: Intervention[], hour: number): number {
+  const shares = sourceShares(zoneType);
+  // Remaining fraction of each source's energy
+  let traffic = 1;
+  let horns = 1;
+  let construction = 1;
+
+  for (const intervention of interventions) {
+    switch (intervention.kind) {
+      case 'traffic': {
+        // Horns come from the same vehicles, so fewer vehicles means fewer horns
+        const remaining = 1 - Math.min(100, Math.max(0, intervention.reductionPct)) / 100;
+        traffic *= remaining;
+        horns *= remaining;
+        break;
+      }
+      case 'honking-ban':
+        horns *= 1 - HONKING_BAN_COMPLIANCE;
+        break;
+      case 'construction-curfew':
+        if (inCurfew(hour, intervention.startHour, intervention.endHour)) construction = 0;
+        break;
+    }
+  }
+
+  const energy = shares.traffic * traffic + shares.horns * horns + shares.construction * construction + shares.other;
+  return 10 * Math.log10(energy);
+}
+
+/**
+ * Predictions after the interventions, re-checked against each station's existing limit
+ */
+export function applyInterventions(points: MapDataPoint[], interventions: Intervention[], hour: number): MapDataPoint[] {
+  return points.map(point => {
+    const acting = interventions.filter(i => i.stations.includes(point.location));
+    if (acting.length === 0) return point;
+
+    const predictedNoise = parseFloat(
+      (point.predicted_noise + interventionDeltaDb(point.zone_type, acting, hour)).toFixed(2)
+    );
+    return { ...point, predicted_noise: predictedNoise, is_violation: predictedNoise > point.noise_limit };
+  });
+}
+
+export interface InterventionMetrics {
+  avgNoise: number;
+  violations: number;
+}
+
+export interface InterventionOutcome {
+  before: InterventionMetrics;
+  after: InterventionMetrics;
+  /** Stations that were in violation before and comply after */
+  movedToCompliant: string[];
+  /** Per-station change in level, for stations an intervention acted on */
+  changes: { location: string; before: number; after: number; deltaDb: number }[];
+}
+
+const metrics = (points: MapDataPoint[]): InterventionMetrics => ({
+  avgNoise: points.length > 0 ? points.reduce((sum, p) => sum + p.predicted_noise, 0) / points.length : 0,
+  violations: points.filter(p => p.is_violation).length,
+});
+
+/**
+ * Compare a run with its intervention result; both lists must be in the same order
+ */
+export function summarizeInterventions(before: MapDataPoint[], after: MapDataPoint[]): InterventionOutcome {
+  const movedToCompliant: string[] = [];
+  const changes: InterventionOutcome['changes'] = [];
+
+  before.forEach((point, index) => {
+    const result = after[index];
+    if (result === point) return;
+    if (point.is_violation && !result.is_violation) movedToCompliant.push(point.location);
+    changes.push({
+      location: point.location,
+      before: point.predicted_noise,
+      after: result.predicted_noise,
+      deltaDb: parseFloat((result.predicted_noise - point.predicted_noise).toFixed(2)),
+    });
+  });
+
+  return { before: metrics(before), after: metrics(after), movedToCompliant, changes };
+}
@@ -0,0 +1,30 @@
+/**
+ * Helpers for JSON answers from language models
+ */
+
+/**
+ * Parse a model's JSON answer, tolerating Markdown code fences around it
+ */
+export function parseModelJson(text: string, what: string): unknown {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new Error(`The AI provider did not return valid JSON for the ${what}`);
+  }
+}
+
+/**
+ * Complete string values of `key` in a partially streamed JSON answer, for
+ * display before the full answer can be parsed
+ */
+export function partialStringValues(partialJson: string, key: string): string[] {
+  const pattern = new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`, 'g');
+  return [...partialJson.matchAll(pattern)].flatMap(match => {
+    try {
+      return [JSON.parse(match[1]) as string];
+    } catch {
+      return [];
+    }
+  });
+}
@@ -0,0 +1,209 @@
+/**
+ * Regulatory limit profiles
+ *
+ * A profile sets the day and night limit of each zone type, the hour each
+ * period starts, and exemption windows such as festival nights, during which
+ * readings don't count as exceedances. The built-in profiles live in
+ * src/data/limitProfiles.json, which the ML backend reads too; a custom
+ * profile is edited in the dashboard and kept in the URL.
+ */
+import data from '../data/limitProfiles.json';
+import { formatHour, hourOf } from './dataUtils';
+import { ZONE_TYPES } from './tableSchemas';
+import type { ZoneType } from './stations';
+
+export interface ZoneLimits {
+  day: number;
+  night: number;
+}
+
+export interface LimitExemption {
+  name: string;
+  /** YYYY-MM-DD for a single day, or MM-DD for the same day every year */
+  dates: string[];
+  /** Window on those dates, from the start of fromHour to the start of toHour (24 is midnight) */
+  fromHour: number;
+  toHour: number;
+}
+
+export interface LimitProfile {
+  id: string;
+  name: string;
+  description: string;
+  /** Day runs from dayStartHour up to nightStartHour; night is the rest */
+  dayStartHour: number;
+  nightStartHour: number;
+  zones: Record<ZoneType, ZoneLimits>;
+  exemptions: LimitExemption[];
+}
+
+export const CUSTOM_PROFILE_ID = 'custom';
+
+const DATE_PATTERN = /^(\d{4}-)?\d{2}-\d{2}$/;
+
+const isHour = (value: unknown, max = 23) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+
+const isLimit = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 200;
+
+/**
+ * What is wrong with a profile, or undefined when it is usable
+ */
+export function profileProblem(profile: LimitProfile): string | undefined {
+  if (!isHour(profile.dayStartHour) || !isHour(profile.nightStartHour) || profile.dayStartHour >= profile.nightStartHour) {
+    return 'the day must start before the night, both on whole hours';
+  }
+  const zone = ZONE_TYPES.find(z => !isLimit(profile.zones[z]?.day) || !isLimit(profile.zones[z]?.night));
+  if (zone) return `${zone} needs day and night limits between 0 and 200 dBA`;
+  for (const exemption of profile.exemptions) {
+    if (!exemption.name.trim()) return 'every exemption needs a name';
+    if (!isHour(exemption.fromHour) || !isHour(exemption.toHour, 24) || exemption.fromHour >= exemption.toHour) {
+      return `exemption "${exemption.name}" needs a window of whole hours within one day`;
+    }
+    const date = exemption.dates.find(d => !DATE_PATTERN.test(d));
+    if (date !== undefined) return `exemption "${exemption.name}" has an invalid date "${date}"`;
+  }
+  return undefined;
+}
+
+function loadProfiles(): LimitProfile[] {
+  return data.profiles.map(raw => {
+    const profile = raw as LimitProfile;
+    const problem = profileProblem(profile);
+    if (problem) throw new Error(`Limit profiles: "${profile.id}": ${problem}`);
+    return profile;
+  });
+}
+
+export const LIMIT_PROFILES: readonly LimitProfile[] = loadProfiles();
+
+/**
+ * Look up a built-in profile by id
+ */
+export function getLimitProfile(id: string): LimitProfile | undefined {
+  return LIMIT_PROFILES.find(profile => profile.id === id);
+}
+
+export const DEFAULT_LIMIT_PROFILE: LimitProfile = (() => {
+  const profile = getLimitProfile(data.defaultProfile);
+  if (!profile) throw new Error(`Limit profiles: default profile "${data.defaultProfile}" is not defined`);
+  return profile;
+})();
+
+export const isNightHourIn = (profile: LimitProfile, hour: number) =>
+  hour < profile.dayStartHour || hour >= profile.nightStartHour;
+
+/**
+ * Limit for a zone at an hour of the day
+ */
+export const zoneLimitAt = (profile: LimitProfile, zoneType: ZoneType, hour: number) =>
+  profile.zones[zoneType][isNightHourIn(profile, hour) ? 'night' : 'day'];
+
+/**
+ * The exemption covering a wall-clock timestamp, if any
+ */
+export function exemptionAt(profile: LimitProfile, time: number): LimitExemption | undefined {
+  if (profile.exemptions.length === 0) return undefined;
+  const date = new Date(time).toISOString().slice(0, 10);
+  const monthDay = date.slice(5);
+  const hour = hourOf(time);
+  return profile.exemptions.find(exemption =>
+    hour >= exemption.fromHour &&
+    hour < exemption.toHour &&
+    (exemption.dates.includes(date) || exemption.dates.includes(monthDay))
+  );
+}
+
+/**
+ * Limit a reading at a wall-clock timestamp is held to; undefined while exempt
+ */
+export const readingLimitAt = (profile: LimitProfile, zoneType: ZoneType, time: number) =>
+  exemptionAt(profile, time) ? undefined : zoneLimitAt(profile, zoneType, hourOf(time));
+
+export const dayHoursLabel = (profile: LimitProfile) =>
+  `${formatHour(profile.dayStartHour)}–${formatHour(profile.nightStartHour)}`;
+
+export const nightHoursLabel = (profile: LimitProfile) =>
+  `${formatHour(profile.nightStartHour)}–${formatHour(profile.dayStartHour)}`;
+
+/**
+ * An editable copy of a profile
+ */
+export function customProfileFrom(base: LimitProfile): LimitProfile {
+  return {
+    ...base,
+    id: CUSTOM_PROFILE_ID,
+    name: 'Custom',
+    description: `Limits edited in the dashboard, starting from ${base.name}.`,
+    zones: Object.fromEntries(ZONE_TYPES.map(zone => [zone, { ...base.zones[zone] }])) as Record<ZoneType, ZoneLimits>,
+    exemptions: base.exemptions.map(exemption => ({ ...exemption, dates: [...exemption.dates] })),
+  };
+}
+
+/**
+ * Compact text form of a custom profile for the URL:
+ * zone limits in ZONE_TYPES order, then the day and night start, then each
+ * exemption as its window, dates and URI-encoded name,
+ * e.g. "75-70,65-55,55-45,50-40;6-22;22-24@12-31@New%20Year's%20Eve"
+ */
+export function encodeCustomProfile(profile: LimitProfile): string {
+  return [
+    ZONE_TYPES.map(zone => `${profile.zones[zone].day}-${profile.zones[zone].night}`).join(','),
+    `${profile.dayStartHour}-${profile.nightStartHour}`,
+    ...profile.exemptions.map(e => `${e.fromHour}-${e.toHour}@${e.dates.join(',')}@${encodeURIComponent(e.name)}`),
+  ].join(';');
+}
+
+const decodeName = (text: string | undefined) => {
+  try {
+    return text ? decodeURIComponent(text).trim() || undefined : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const parsePair = (text: string): [number, number] | undefined => {
+  const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(text);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+};
+
+/**
+ * Read a custom profile written by encodeCustomProfile; undefined if malformed
+ */
+export function decodeCustomProfile(value: string): LimitProfile | undefined {
+  const [zonesPart, hoursPart, ...exemptionParts] = value.split(';');
+  const zonePairs = (zonesPart ?? '').split(',').map(parsePair);
+  const hours = parsePair(hoursPart ?? '');
+  if (zonePairs.length !== ZONE_TYPES.length || !hours) return undefined;
+
+  const zones: Partial<Record<ZoneType, ZoneLimits>> = {};
+  for (const [index, zone] of ZONE_TYPES.entries()) {
+    const pair = zonePairs[index];
+    if (!pair) return undefined;
+    zones[zone] = { day: pair[0], night: pair[1] };
+  }
+
+  const exemptions: LimitExemption[] = [];
+  for (const [index, part] of exemptionParts.entries()) {
+    const [window, dates = '', name] = part.split('@');
+    const pair = parsePair(window);
+    if (!pair) return undefined;
+    exemptions.push({
+      // A missing or malformed name falls back to a numbered one
+      name: decodeName(name) ?? (exemptionParts.length > 1 ? `Exemption ${index + 1}` : 'Exemption'),
+      dates: dates.split(',').filter(Boolean),
+      fromHour: pair[0],
+      toHour: pair[1],
+    });
+  }
+
+  const profile: LimitProfile = {
+    ...customProfileFrom(DEFAULT_LIMIT_PROFILE),
+    description: 'Limits edited in the dashboard.',
+    dayStartHour: hours[0],
+    nightStartHour: hours[1],
+    zones: zones as Record<ZoneType, ZoneLimits>,
+    exemptions,
+  };
+  return profileProblem(profile) ? undefined : profile;
+}
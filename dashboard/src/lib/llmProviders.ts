@@ -0,0 +1,173 @@
+/**
+ * Text generation providers for the AI summary and policy suggestions
+ *
+ * - gemini:   Google Gemini (VITE_GEMINI_API_KEY)
+ * - openai:   any OpenAI-compatible /chat/completions endpoint, including local
+ *             servers such as llama.cpp or Ollama (VITE_OPENAI_BASE_URL)
+ * - template: deterministic text written from the tables, no model needed
+ *
+ * Model providers stream their output; onText receives the text so far as it
+ * arrives, and aborting the request's signal stops the stream.
+ *
+ * The default comes from VITE_LLM_PROVIDER, falling back to the first
+ * configured model provider and finally to the template provider.
+ */
+import { createGeminiProvider } from './geminiService';
+import { fetchWithRetry, type RetryOptions } from './httpRetry';
+import { readServerSentEvents } from './sseStream';
+import { buildTemplateClaims, type AnalysisTables } from './groundedSummary';
+import { buildTemplateRecommendations } from './policyRecommendations';
+import type { PolicyLocation } from './stationProfile';
+
+// What is being generated, so providers that don't read prompts can still answer
+export type LLMTask =
+  | { kind: 'summary'; tables: AnalysisTables }
+  | { kind: 'policy'; location: PolicyLocation };
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** 'json' asks the model for a JSON object instead of free text */
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  /** Called with the full text received so far, each time more arrives */
+  onText?: (text: string) => void;
+}
+
+export interface LLMResult {
+  text: string;
+  /** Model that produced the text */
+  model: string;
+  /** True when the output token limit cut the text short */
+  truncated?: boolean;
+}
+
+export interface LLMProvider {
+  id: string;
+  label: string;
+  description: string;
+  /** False when required settings (e.g. an API key) are missing */
+  configured: boolean;
+  generate(request: LLMRequest): Promise<LLMResult>;
+}
+
+export interface OpenAICompatibleConfig {
+  /** Base URL up to and including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  retry?: RetryOptions;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }>;
+}
+
+/**
+ * OpenAI-compatible chat completions provider
+ */
+export function createOpenAICompatibleProvider({
+  baseUrl = import.meta.env.VITE_OPENAI_BASE_URL,
+  apiKey = import.meta.env.VITE_OPENAI_API_KEY,
+  model = import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
+  retry = {},
+}: OpenAICompatibleConfig = {}): LLMProvider {
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: baseUrl ? `${model} at ${baseUrl}` : 'Chat completions endpoint (not configured)',
+    configured: !!baseUrl,
+    async generate({ prompt, temperature, maxOutputTokens, responseFormat, signal, onText }) {
+      if (!baseUrl) {
+        throw new Error('OpenAI-compatible endpoint not configured. Please set VITE_OPENAI_BASE_URL in your .env file.');
+      }
+
+      const resp = await fetchWithRetry(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: temperature ?? 0.7,
+          max_tokens: maxOutputTokens ?? 2048,
+          stream: true,
+          ...(responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        }),
+        signal,
+      }, retry);
+
+      if (!resp.ok) {
+        const err = await resp.json().catch(() => null);
+        const msg = err?.error?.message || resp.statusText;
+        throw new Error(`Chat completions error (${resp.status}): ${msg}`);
+      }
+
+      let text = '';
+      let responseModel = model;
+      let truncated = false;
+      for await (const data of readServerSentEvents(resp)) {
+        if (data === '[DONE]') break;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        responseModel = chunk.model || responseModel;
+        const choice = chunk.choices?.[0];
+        if (choice?.finish_reason === 'length') truncated = true;
+        if (choice?.delta?.content) {
+          text += choice.delta.content;
+          onText?.(text);
+        }
+      }
+
+      if (!text.trim()) {
+        throw new Error('No response returned from the chat completions endpoint');
+      }
+      return { text: text.trim(), model: responseModel, truncated };
+    },
+  };
+}
+
+/**
+ * Offline provider that writes fixed-form text from the task inputs
+ */
+export function createTemplateProvider(): LLMProvider {
+  return {
+    id: 'template',
+    label: 'Offline template',
+    description: 'Deterministic output from the tables, no model',
+    configured: true,
+    async generate({ task, signal, onText }) {
+      if (signal?.aborted) {
+        throw new DOMException('Generation was cancelled', 'AbortError');
+      }
+      const text = task.kind === 'summary'
+        ? JSON.stringify({ claims: buildTemplateClaims(task.tables) })
+        : JSON.stringify({ recommendations: buildTemplateRecommendations(task.location) });
+      onText?.(text);
+      return { text, model: 'template' };
+    },
+  };
+}
+
+export const LLM_PROVIDERS: readonly LLMProvider[] = [
+  createGeminiProvider(),
+  createOpenAICompatibleProvider(),
+  createTemplateProvider(),
+];
+
+export const DEFAULT_LLM_PROVIDER_ID: string =
+  LLM_PROVIDERS.find(p => p.id === import.meta.env.VITE_LLM_PROVIDER && p.configured)?.id ??
+  LLM_PROVIDERS.find(p => p.configured)?.id ??
+  'template';
+
+export function getLLMProvider(id: string): LLMProvider {
+  const provider = LLM_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown AI provider "${id}"`);
+  }
+  return provider;
+}
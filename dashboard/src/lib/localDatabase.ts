@@ -0,0 +1,59 @@
+/**
+ * The dashboard's IndexedDB database and small promise helpers around it
+ */
+
+// Named before the database held anything but AI outputs; renaming it would orphan stored data
+const DB_NAME = 'noise-dashboard-ai';
+const DB_VERSION = 2;
+
+export const STORES = {
+  aiOutputs: 'outputs',
+  scenarios: 'scenarios',
+} as const;
+
+/** Index of AI outputs on [kind, subject] */
+export const AI_SUBJECT_INDEX = 'bySubject';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Database transaction was aborted'));
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const outputs = db.createObjectStore(STORES.aiOutputs, { keyPath: 'id' });
+          outputs.createIndex(AI_SUBJECT_INDEX, ['kind', 'subject']);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(STORES.scenarios, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry, e.g. after the user frees up storage
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
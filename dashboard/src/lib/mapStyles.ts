@@ -0,0 +1,55 @@
+/**
+ * Marker styling for predicted noise levels on the Leaflet maps
+ */
+
+// Colour of the circle based on noise level
+export const getNoiseColor = (noise: number): string => {
+  if (noise > 80) return '#ae017e';
+  if (noise > 75) return '#f768a1';
+  if (noise > 65) return '#fbb4b9';
+  return '#feebe2'; // Default color for lower noise levels
+};
+
+// Radius of the circle based on noise level
+export const getNoiseRadius = (noise: number): number => {
+  if (noise > 80) return 35;
+  if (noise > 75) return 30;
+  if (noise > 65) return 25;
+  return 20;
+};
+
+// Default view over Delhi NCR
+export const DELHI_CENTER: [number, number] = [28.6139, 77.2090];
+export const DELHI_ZOOM = 11;
+
+// Centre and zoom shared between synced maps
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+// Colour stops for continuous noise surfaces (dBA → RGB)
+export const SURFACE_COLOR_STOPS: [number, [number, number, number]][] = [
+  [45, [254, 235, 226]],
+  [55, [252, 197, 192]],
+  [65, [250, 159, 181]],
+  [75, [247, 104, 161]],
+  [85, [174, 1, 126]],
+];
+
+// Continuous colour for an interpolated noise level
+export const getSurfaceRgb = (noise: number): [number, number, number] => {
+  const stops = SURFACE_COLOR_STOPS;
+  if (noise <= stops[0][0]) return stops[0][1];
+  for (let i = 1; i < stops.length; i++) {
+    const [upper, upperColor] = stops[i];
+    if (noise <= upper) {
+      const [lower, lowerColor] = stops[i - 1];
+      const t = (noise - lower) / (upper - lower);
+      return lowerColor.map((c, k) => Math.round(c + t * (upperColor[k] - c))) as [number, number, number];
+    }
+  }
+  return stops[stops.length - 1][1];
+};
+
+export const getSurfaceColor = (noise: number): string => `rgb(${getSurfaceRgb(noise).join(', ')})`;
@@ -0,0 +1,248 @@
+/**
+ * Structured policy recommendations
+ *
+ * The model answers with JSON objects that are validated against
+ * POLICY_RECOMMENDATION_SCHEMA, so the dialog can filter, sort and export them
+ * and recommendations can be compared across stations.
+ */
+import { parseModelJson } from './jsonOutput';
+import type { PolicyLocation } from './stationProfile';
+
+export const POLICY_CATEGORIES = ['traffic', 'construction', 'enforcement', 'zoning'] as const;
+export const COST_TIERS = ['low', 'medium', 'high'] as const;
+// Cheapest/quickest first, so the index doubles as a sort key
+export const TIMEFRAMES = ['immediate', 'short-term', 'medium-term', 'long-term'] as const;
+
+export type PolicyCategory = typeof POLICY_CATEGORIES[number];
+export type CostTier = typeof COST_TIERS[number];
+export type Timeframe = typeof TIMEFRAMES[number];
+
+export interface PolicyRecommendation {
+  action: string;
+  category: PolicyCategory;
+  /** Expected reduction in the station's average level */
+  expectedReductionDb: number;
+  costTier: CostTier;
+  agency: string;
+  timeframe: Timeframe;
+}
+
+interface FieldSchema {
+  type: 'string' | 'number';
+  enum?: readonly string[];
+  min?: number;
+  max?: number;
+  description: string;
+}
+
+export const POLICY_RECOMMENDATION_SCHEMA: { [K in keyof PolicyRecommendation]-?: FieldSchema } = {
+  action: { type: 'string', description: 'one specific, implementable measure' },
+  category: { type: 'string', enum: POLICY_CATEGORIES, description: 'type of intervention' },
+  expectedReductionDb: { type: 'number', min: 0, max: 20, description: 'expected drop in the average level, in dB' },
+  costTier: { type: 'string', enum: COST_TIERS, description: 'relative cost of implementation' },
+  agency: { type: 'string', description: 'Delhi agency responsible, e.g. Delhi Traffic Police, DPCC, MCD, PWD' },
+  timeframe: {
+    type: 'string',
+    enum: TIMEFRAMES,
+    description: 'immediate (< 3 months), short-term (3–12 months), medium-term (1–3 years) or long-term (> 3 years)',
+  },
+};
+
+export const TIMEFRAME_LABELS: Record<Timeframe, string> = {
+  immediate: 'Immediate (< 3 months)',
+  'short-term': 'Short term (3–12 months)',
+  'medium-term': 'Medium term (1–3 years)',
+  'long-term': 'Long term (> 3 years)',
+};
+
+export interface RecommendationError {
+  /** 0-based position in the model's list */
+  index: number;
+  field?: keyof PolicyRecommendation;
+  value?: string;
+  message: string;
+}
+
+export interface RecommendationResult {
+  recommendations: PolicyRecommendation[];
+  /** Problems with dropped recommendations */
+  errors: RecommendationError[];
+}
+
+function convertField(raw: unknown, field: FieldSchema): { value?: string | number; error?: string } {
+  if (field.type === 'number') {
+    const num = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+    if (!Number.isFinite(num)) return { error: 'expected a number' };
+    if (field.min !== undefined && num < field.min) return { error: `below minimum ${field.min}` };
+    if (field.max !== undefined && num > field.max) return { error: `above maximum ${field.max}` };
+    return { value: num };
+  }
+
+  if (typeof raw !== 'string' || !raw.trim()) return { error: 'expected text' };
+  if (field.enum) {
+    // Models vary case and spacing, e.g. "Short term"
+    const normalized = raw.trim().toLowerCase().replace(/\s+/g, '-');
+    const match = field.enum.find(option => option === normalized);
+    return match ? { value: match } : { error: `expected one of ${field.enum.join(', ')}` };
+  }
+  return { value: raw.trim() };
+}
+
+/**
+ * Validate a parsed list against the schema. Invalid items are dropped and
+ * reported, as with table rows.
+ */
+export function validateRecommendations(items: unknown[]): RecommendationResult {
+  const recommendations: PolicyRecommendation[] = [];
+  const errors: RecommendationError[] = [];
+  const fields = Object.entries(POLICY_RECOMMENDATION_SCHEMA) as [keyof PolicyRecommendation, FieldSchema][];
+
+  items.forEach((item, index) => {
+    if (typeof item !== 'object' || item === null) {
+      errors.push({ index, message: 'expected an object' });
+      return;
+    }
+    const record: Record<string, string | number> = {};
+    let valid = true;
+    for (const [name, field] of fields) {
+      const raw = (item as Record<string, unknown>)[name];
+      const { value, error } = convertField(raw, field);
+      if (error !== undefined) {
+        errors.push({ index, field: name, value: raw === undefined ? undefined : String(raw), message: error });
+        valid = false;
+      } else if (value !== undefined) {
+        record[name] = value;
+      }
+    }
+    if (valid) recommendations.push(record as unknown as PolicyRecommendation);
+  });
+
+  return { recommendations, errors };
+}
+
+/**
+ * Parse and validate the model's JSON answer
+ */
+export function parsePolicyRecommendations(text: string): RecommendationResult {
+  const data = parseModelJson(text, 'policy recommendations');
+  const items = (data as { recommendations?: unknown })?.recommendations;
+  if (!Array.isArray(items)) {
+    throw new Error('The AI answer is missing its "recommendations" list');
+  }
+  return validateRecommendations(items);
+}
+
+export function formatRecommendationError({ index, field, value, message }: RecommendationError): string {
+  const where = field ? `Recommendation ${index + 1}, "${field}"` : `Recommendation ${index + 1}`;
+  return `${where}: ${message}${value !== undefined ? ` (got "${value}")` : ''}`;
+}
+
+/**
+ * Prompt asking for recommendations in the schema's JSON shape
+ */
+export function buildPolicyPrompt(location: PolicyLocation): string {
+  const fields = Object.entries(POLICY_RECOMMENDATION_SCHEMA)
+    .map(([name, field]) => {
+      const type = field.enum ? field.enum.map(option => `"${option}"`).join(' | ') : field.type;
+      const range = field.min !== undefined && field.max !== undefined ? ` from ${field.min} to ${field.max}` : '';
+      return `- ${name} (${type}${range}): ${field.description}`;
+    })
+    .join('\n');
+
+  return `You are an urban planning and environmental policy expert. Generate 3–5 specific, actionable policy recommendations to reduce noise pollution for the following location:
+
+Location: ${location.name}
+Zone Type: ${location.zoneType}
+Current Average Noise: ${location.avgNoise} dBA
+Legal Limit: ${location.limit} dBA
+Violation Rate: ${location.violationRate}%
+
+Provide practical, implementable solutions that are specific to this zone type and violation severity. Give realistic, conservative dB reductions for each measure on its own.
+
+Respond with JSON only, in the shape {"recommendations": [ ... ]}, where each recommendation has these fields:
+${fields}`;
+}
+
+// Zone-specific measures for the template provider, most targeted first
+const ZONE_MEASURES: Record<string, PolicyRecommendation[]> = {
+  Commercial: [
+    { action: 'Declare the main arterial roads no-honking corridors and enforce them with traffic police and acoustic cameras', category: 'enforcement', expectedReductionDb: 3, costTier: 'medium', agency: 'Delhi Traffic Police', timeframe: 'short-term' },
+    { action: 'Retime signals and add traffic calming to cut stop-start acceleration noise at junctions', category: 'traffic', expectedReductionDb: 2, costTier: 'medium', agency: 'Delhi Traffic Police', timeframe: 'short-term' },
+    { action: 'Restrict goods deliveries and loudspeaker use to fixed daytime windows', category: 'zoning', expectedReductionDb: 1.5, costTier: 'low', agency: 'Municipal Corporation of Delhi', timeframe: 'immediate' },
+    { action: 'Install noise barriers or dense planting along the busiest road frontages', category: 'construction', expectedReductionDb: 4, costTier: 'high', agency: 'Public Works Department', timeframe: 'medium-term' },
+  ],
+  Residential: [
+    { action: 'Ban construction work and amplified music between 22:00 and 06:00, with fines for repeat offences', category: 'enforcement', expectedReductionDb: 2.5, costTier: 'low', agency: 'Delhi Pollution Control Committee', timeframe: 'immediate' },
+    { action: 'Route heavy goods vehicles away from residential streets at night', category: 'traffic', expectedReductionDb: 3, costTier: 'low', agency: 'Delhi Traffic Police', timeframe: 'short-term' },
+    { action: 'Plant green buffers and require low-noise surfacing on internal roads', category: 'construction', expectedReductionDb: 2, costTier: 'medium', agency: 'Municipal Corporation of Delhi', timeframe: 'medium-term' },
+    { action: 'Set up a community complaints line linked to the monitoring station for quick follow-up', category: 'enforcement', expectedReductionDb: 1, costTier: 'low', agency: 'Delhi Pollution Control Committee', timeframe: 'immediate' },
+  ],
+  Silence: [
+    { action: 'Enforce a strict 100 m no-horn zone around schools, hospitals and courts with clear signage', category: 'enforcement', expectedReductionDb: 3, costTier: 'low', agency: 'Delhi Traffic Police', timeframe: 'immediate' },
+    { action: 'Lower speed limits and divert through traffic from the silence zone', category: 'traffic', expectedReductionDb: 3.5, costTier: 'medium', agency: 'Delhi Traffic Police', timeframe: 'short-term' },
+    { action: 'Prohibit loudspeakers and public address systems within the zone at all times', category: 'zoning', expectedReductionDb: 1.5, costTier: 'low', agency: 'Delhi Pollution Control Committee', timeframe: 'immediate' },
+    { action: 'Install real-time noise displays to make breaches visible to drivers and staff', category: 'enforcement', expectedReductionDb: 1, costTier: 'medium', agency: 'Delhi Pollution Control Committee', timeframe: 'short-term' },
+  ],
+  Industrial: [
+    { action: 'Require acoustic enclosures and maintenance schedules for the loudest machinery', category: 'enforcement', expectedReductionDb: 4, costTier: 'medium', agency: 'Delhi Pollution Control Committee', timeframe: 'short-term' },
+    { action: 'Schedule high-noise processes during day shifts only', category: 'zoning', expectedReductionDb: 2, costTier: 'low', agency: 'Delhi Pollution Control Committee', timeframe: 'immediate' },
+    { action: 'Build perimeter noise barriers where industrial units border housing', category: 'construction', expectedReductionDb: 5, costTier: 'high', agency: 'Delhi State Industrial and Infrastructure Development Corporation', timeframe: 'medium-term' },
+    { action: 'Carry out periodic noise audits with penalties for units above the limit', category: 'enforcement', expectedReductionDb: 1.5, costTier: 'low', agency: 'Delhi Pollution Control Committee', timeframe: 'short-term' },
+  ],
+};
+
+/**
+ * Recommendations written directly from the location, for the offline template provider
+ */
+export function buildTemplateRecommendations({ name, zoneType, violationRate }: PolicyLocation): PolicyRecommendation[] {
+  const measures = [...(ZONE_MEASURES[zoneType] ?? ZONE_MEASURES.Commercial)];
+  if (violationRate >= 75) {
+    measures.unshift({
+      action: `Start an immediate enforcement drive at ${name}: limits are exceeded ${violationRate}% of the time`,
+      category: 'enforcement',
+      expectedReductionDb: 2,
+      costTier: 'low',
+      agency: 'Delhi Pollution Control Committee',
+      timeframe: 'immediate',
+    });
+  }
+  return measures.slice(0, 5);
+}
+
+export type RecommendationSort = 'reduction' | 'cost' | 'timeframe' | 'category';
+
+export const RECOMMENDATION_SORTS: Record<RecommendationSort, string> = {
+  reduction: 'Largest reduction',
+  cost: 'Lowest cost',
+  timeframe: 'Quickest',
+  category: 'Category',
+};
+
+export function sortRecommendations<T extends PolicyRecommendation>(items: T[], sort: RecommendationSort): T[] {
+  const compare: Record<RecommendationSort, (a: T, b: T) => number> = {
+    reduction: (a, b) => b.expectedReductionDb - a.expectedReductionDb,
+    cost: (a, b) => COST_TIERS.indexOf(a.costTier) - COST_TIERS.indexOf(b.costTier),
+    timeframe: (a, b) => TIMEFRAMES.indexOf(a.timeframe) - TIMEFRAMES.indexOf(b.timeframe),
+    category: (a, b) => POLICY_CATEGORIES.indexOf(a.category) - POLICY_CATEGORIES.indexOf(b.category),
+  };
+  return [...items].sort(compare[sort]);
+}
+
+/** A recommendation with the station it was made for, for exports and comparisons */
+export interface StationRecommendation extends PolicyRecommendation {
+  station: string;
+  zoneType: string;
+}
+
+const CSV_COLUMNS: (keyof StationRecommendation)[] = [
+  'station', 'zoneType', 'action', 'category', 'expectedReductionDb', 'costTier', 'agency', 'timeframe',
+];
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function recommendationsToCSV(rows: StationRecommendation[]): string {
+  return [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(c => csvField(row[c])).join(','))].join('\n');
+}
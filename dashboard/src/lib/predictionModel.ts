@@ -0,0 +1,161 @@
+/**
+ * In-browser noise prediction heuristic
+ *
+ * Mirrors generate_dummy_prediction in ML-Backend/app.py: a weighted blend of
+ * the previous hour's level and a station/time-of-day baseline.
+ */
+import { STATIONS, type Station } from './stations';
+import type { HourlyStatistics, StationRanking } from './dataUtils';
+import { DEFAULT_LIMIT_PROFILE, zoneLimitAt, type LimitProfile } from './limitProfiles';
+import { ZONE_TYPES } from './tableSchemas';
+import { createRng } from './random';
+
+// Structure of a single map prediction, as returned by the backend /predict_map endpoint
+export interface MapDataPoint {
+  location: string;
+  latitude: number;
+  longitude: number;
+  predicted_noise: number;
+  zone_type: string;
+  noise_limit: number;
+  is_violation: boolean;
+  confidence: number;
+}
+
+export interface PredictionParams {
+  hour: number;
+  /** 0 = Monday, 6 = Sunday */
+  dayOfWeek: number;
+  /** Noise level of the previous hour (dBA) */
+  noiseLag: number;
+  /** Seed for the model's random jitter; the same seed reproduces the same map */
+  seed: number;
+  /** Per-station previous-hour levels, overriding noiseLag (used when chaining forecasts) */
+  noiseLagByStation?: Record<string, number>;
+}
+
+// Previous-hour conditions offered by the prediction controls (dBA)
+export const NOISE_LAG_OPTIONS = [
+  { value: 55, label: 'Quiet' },
+  { value: 65, label: 'Normal' },
+  { value: 75, label: 'Loud' },
+] as const;
+
+/**
+ * Historical levels used to judge how plausible a prediction is
+ */
+export interface HistoricalBaseline {
+  /** Long-term average LAeq per station id */
+  stationMeans: Record<string, number>;
+  /** Hourly mean minus the all-day mean, indexed by hour */
+  hourlyOffsets: Record<number, number>;
+}
+
+// Deviation (dB) from the historical expectation at which confidence has dropped by ~40%
+const CONFIDENCE_SCALE_DB = 8;
+
+/**
+ * Build the historical baseline from the station rankings and hourly statistics tables
+ */
+export function buildHistoricalBaseline(
+  rankings: StationRanking[],
+  hourly: HourlyStatistics[]
+): HistoricalBaseline {
+  const stationMeans: Record<string, number> = {};
+  rankings.forEach(row => {
+    stationMeans[row.Location] = row.Average_LAeq_dBA;
+  });
+
+  const hourlyOffsets: Record<number, number> = {};
+  if (hourly.length > 0) {
+    const dayMean = hourly.reduce((sum, row) => sum + row.Average_LAeq_dBA, 0) / hourly.length;
+    hourly.forEach(row => {
+      hourlyOffsets[row.Hour] = row.Average_LAeq_dBA - dayMean;
+    });
+  }
+
+  return { stationMeans, hourlyOffsets };
+}
+
+/**
+ * Expected level for a station at an hour: its long-term mean shifted by the hourly profile.
+ * Falls back to the station's base noise when no history is available.
+ */
+export function expectedStationNoise(station: Station, hour: number, baseline?: HistoricalBaseline): number {
+  const mean = baseline?.stationMeans[station.id] ?? station.baseNoise;
+  const offset = baseline?.hourlyOffsets[hour] ?? 0;
+  return mean + offset;
+}
+
+/**
+ * Confidence in [0.5, 0.95], falling off as the prediction moves away from the historical expectation
+ */
+export function confidenceFromDeviation(deviation: number): number {
+  const z = deviation / CONFIDENCE_SCALE_DB;
+  return parseFloat((0.5 + 0.45 * Math.exp(-0.5 * z * z)).toFixed(2));
+}
+
+/**
+ * Predicted noise level for one station
+ */
+export function predictStationNoise(station: Station, params: PredictionParams): number {
+  const { hour, dayOfWeek, seed } = params;
+  const noiseLag = params.noiseLagByStation?.[station.id] ?? params.noiseLag;
+
+  // Time of day factor
+  let timeFactor = 0;
+  if (hour >= 8 && hour <= 10) timeFactor = 4.5;
+  else if (hour >= 17 && hour <= 20) timeFactor = 6.0;
+  else if (hour >= 0 && hour <= 5) timeFactor = -8.0;
+
+  // Day of week factor
+  const dayFactor = dayOfWeek >= 5 ? -3.5 : 0;
+
+  // Seeded jitter: one stream per station and input combination, so the
+  // result doesn't depend on the order stations are evaluated in
+  const rng = createRng(seed, station.id, hour, dayOfWeek, noiseLag);
+  const jitter = rng() * 3 - 1.5;
+
+  // Calculate noise
+  const environmentalNoise = station.baseNoise + timeFactor + dayFactor;
+  const predictedNoise = (0.6 * noiseLag) + (0.4 * environmentalNoise) + jitter;
+
+  return parseFloat(predictedNoise.toFixed(2));
+}
+
+/**
+ * Generate static predictions for every registry station (no backend needed)
+ */
+export function generateStaticPredictions(
+  params: PredictionParams,
+  baseline?: HistoricalBaseline,
+  limits: LimitProfile = DEFAULT_LIMIT_PROFILE
+): MapDataPoint[] {
+  return STATIONS.map(station => {
+    const predictedNoise = predictStationNoise(station, params);
+    const limit = zoneLimitAt(limits, station.zoneType, params.hour);
+    const expected = expectedStationNoise(station, params.hour, baseline);
+
+    return {
+      location: station.id,
+      latitude: station.latitude,
+      longitude: station.longitude,
+      predicted_noise: predictedNoise,
+      zone_type: station.zoneType,
+      noise_limit: limit,
+      is_violation: predictedNoise > limit,
+      confidence: confidenceFromDeviation(predictedNoise - expected),
+    };
+  });
+}
+
+/**
+ * A prediction's limit and violation status under another limit profile.
+ * Predictions have an hour but no date, so exemptions don't apply.
+ */
+export function withLimitProfile(point: MapDataPoint, hour: number, limits: LimitProfile): MapDataPoint {
+  const zoneType = ZONE_TYPES.find(zone => zone === point.zone_type);
+  if (!zoneType) return point;
+  const limit = zoneLimitAt(limits, zoneType, hour);
+  return { ...point, noise_limit: limit, is_violation: point.predicted_noise > limit };
+}
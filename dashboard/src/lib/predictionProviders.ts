@@ -0,0 +1,262 @@
+/**
+ * Prediction providers for the predictive map
+ *
+ * - local:    the in-browser heuristic (no backend needed)
+ * - http:     the Flask ML backend (/predict_map and /predict)
+ * - fixtures: recorded /predict_map responses, for tests and offline demos
+ *
+ * The default provider comes from VITE_PREDICTION_PROVIDER and the backend
+ * URL from VITE_PREDICTION_API_URL.
+ */
+import axios from 'axios';
+import fixtureData from '../data/predictionFixtures.json';
+import {
+  generateStaticPredictions,
+  predictStationNoise,
+  withLimitProfile,
+  type HistoricalBaseline,
+  type MapDataPoint,
+  type PredictionParams,
+} from './predictionModel';
+import { getStation } from './stations';
+import { CUSTOM_PROFILE_ID, type LimitProfile } from './limitProfiles';
+
+export interface PredictionProgress {
+  stage: string;
+  /** 0–100 */
+  progress: number;
+}
+
+export interface PredictionRequestOptions {
+  signal?: AbortSignal;
+  /** Historical levels for confidence scoring (used by the in-browser model) */
+  baseline?: HistoricalBaseline;
+  /** Limit profile that decides each station's limit and violation status */
+  limits?: LimitProfile;
+  onProgress?: (progress: PredictionProgress) => void;
+}
+
+export interface PredictionProvider {
+  id: string;
+  label: string;
+  description: string;
+  /** Predictions for every station */
+  predictMap(params: PredictionParams, options?: PredictionRequestOptions): Promise<MapDataPoint[]>;
+  /** Predicted noise level (dBA) for a single station */
+  predictStation(stationId: string, params: PredictionParams, options?: PredictionRequestOptions): Promise<number>;
+}
+
+export interface PredictionFixture {
+  name: string;
+  /** Recorded responses are fixed, so the seed is not part of the match */
+  params: Omit<PredictionParams, 'seed'>;
+  response: MapDataPoint[];
+}
+
+export const DEFAULT_API_URL = import.meta.env.VITE_PREDICTION_API_URL || 'http://localhost:5000';
+
+/**
+ * Reject with the standard AbortError if the signal has already fired
+ */
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new DOMException('Prediction request was cancelled', 'AbortError');
+  }
+}
+
+export function isAbortError(err: unknown): boolean {
+  return (err instanceof DOMException && err.name === 'AbortError') || axios.isCancel(err);
+}
+
+/**
+ * Check that a backend response has the MapDataPoint shape
+ */
+function validateMapResponse(data: unknown): MapDataPoint[] {
+  if (!Array.isArray(data)) {
+    throw new Error('Prediction service returned an unexpected response (expected a list of locations)');
+  }
+  return data.map((item, idx) => {
+    const point = item as Partial<MapDataPoint>;
+    const valid =
+      typeof point.location === 'string' &&
+      typeof point.latitude === 'number' &&
+      typeof point.longitude === 'number' &&
+      typeof point.predicted_noise === 'number' &&
+      typeof point.zone_type === 'string' &&
+      typeof point.noise_limit === 'number' &&
+      typeof point.is_violation === 'boolean' &&
+      typeof point.confidence === 'number';
+    if (!valid) {
+      throw new Error(`Prediction service returned an invalid entry at index ${idx}`);
+    }
+    return point as MapDataPoint;
+  });
+}
+
+/**
+ * In-browser heuristic provider
+ */
+export function createLocalProvider(): PredictionProvider {
+  return {
+    id: 'local',
+    label: 'In-browser model',
+    description: 'Heuristic model running in the browser',
+    async predictMap(params, options = {}) {
+      throwIfAborted(options.signal);
+      options.onProgress?.({ stage: 'Computing predictions...', progress: 50 });
+      const predictions = generateStaticPredictions(params, options.baseline, options.limits);
+      options.onProgress?.({ stage: 'Done', progress: 100 });
+      return predictions;
+    },
+    async predictStation(stationId, params, options = {}) {
+      throwIfAborted(options.signal);
+      const station = getStation(stationId);
+      if (!station) {
+        throw new Error(`Unknown station "${stationId}"`);
+      }
+      return predictStationNoise(station, params);
+    },
+  };
+}
+
+/**
+ * HTTP provider for the Flask ML backend
+ */
+export function createHttpProvider(baseUrl: string = DEFAULT_API_URL): PredictionProvider {
+  const client = axios.create({ baseURL: baseUrl, timeout: 30000 });
+
+  const toRequestBody = ({ hour, dayOfWeek, noiseLag, seed, noiseLagByStation }: PredictionParams, limits?: LimitProfile) => ({
+    hour,
+    day_of_week: dayOfWeek,
+    noise_lag_1hr: noiseLag,
+    seed,
+    ...(noiseLagByStation && { noise_lag_by_station: noiseLagByStation }),
+    // The backend knows the built-in profiles by id; a custom one is sent whole
+    ...(limits && { limit_profile: limits.id === CUSTOM_PROFILE_ID ? limits : limits.id }),
+  });
+
+  const describeError = (err: unknown): Error => {
+    if (isAbortError(err)) {
+      return new DOMException('Prediction request was cancelled', 'AbortError');
+    }
+    if (axios.isAxiosError(err)) {
+      if (err.response) {
+        return new Error(`Prediction service error (${err.response.status}): ${err.response.statusText || err.message}`);
+      }
+      return new Error(`Prediction service unreachable at ${baseUrl}: ${err.message}`);
+    }
+    return err instanceof Error ? err : new Error(String(err));
+  };
+
+  return {
+    id: 'http',
+    label: 'ML backend',
+    description: `Flask prediction service at ${baseUrl}`,
+    async predictMap(params, options = {}) {
+      const { signal, onProgress } = options;
+      onProgress?.({ stage: 'Connecting to prediction service...', progress: 10 });
+
+      try {
+        const response = await client.post('/predict_map', toRequestBody(params, options.limits), {
+          signal,
+          onUploadProgress: (event) => {
+            const fraction = event.progress ?? 1;
+            onProgress?.({
+              stage: fraction < 1 ? 'Sending parameters...' : 'Waiting for model...',
+              progress: Math.round(10 + fraction * 30),
+            });
+          },
+          onDownloadProgress: (event) => {
+            const fraction = event.progress ?? 0.5;
+            onProgress?.({ stage: 'Receiving predictions...', progress: Math.round(60 + fraction * 30) });
+          },
+        });
+
+        onProgress?.({ stage: 'Validating response...', progress: 95 });
+        const predictions = validateMapResponse(response.data);
+        onProgress?.({ stage: 'Done', progress: 100 });
+        return predictions;
+      } catch (err) {
+        throw describeError(err);
+      }
+    },
+    async predictStation(stationId, params, options = {}) {
+      try {
+        const response = await client.post(
+          '/predict',
+          { ...toRequestBody(params), location: stationId },
+          { signal: options.signal }
+        );
+        const prediction = response.data?.prediction;
+        if (typeof prediction !== 'number') {
+          throw new Error('Prediction service returned an unexpected response (missing "prediction")');
+        }
+        return prediction;
+      } catch (err) {
+        throw describeError(err);
+      }
+    },
+  };
+}
+
+/**
+ * Recorded-fixture provider: replays /predict_map responses matched by parameters
+ */
+export function createFixtureProvider(
+  fixtures: PredictionFixture[] = fixtureData.fixtures as PredictionFixture[]
+): PredictionProvider {
+  const findFixture = ({ hour, dayOfWeek, noiseLag, noiseLagByStation }: PredictionParams): PredictionFixture => {
+    if (noiseLagByStation) {
+      throw new Error('Recorded fixtures cannot replay chained (per-station) forecasts');
+    }
+    const match = fixtures.find(f =>
+      f.params.hour === hour && f.params.dayOfWeek === dayOfWeek && f.params.noiseLag === noiseLag
+    );
+    if (!match) {
+      const available = fixtures
+        .map(f => `${f.name} (hour ${f.params.hour}, day ${f.params.dayOfWeek}, lag ${f.params.noiseLag})`)
+        .join('; ');
+      throw new Error(`No recorded fixture for these parameters. Available: ${available}`);
+    }
+    return match;
+  };
+
+  return {
+    id: 'fixtures',
+    label: 'Recorded fixtures',
+    description: `${fixtures.length} recorded backend responses`,
+    async predictMap(params, options = {}) {
+      throwIfAborted(options.signal);
+      const fixture = findFixture(params);
+      options.onProgress?.({ stage: 'Done', progress: 100 });
+      // Recorded limits are CPCB's; re-judge them when another profile is chosen
+      const { limits } = options;
+      return fixture.response.map(point => limits ? withLimitProfile(point, params.hour, limits) : { ...point });
+    },
+    async predictStation(stationId, params, options = {}) {
+      throwIfAborted(options.signal);
+      const point = findFixture(params).response.find(p => p.location === stationId);
+      if (!point) {
+        throw new Error(`Fixture has no prediction for station "${stationId}"`);
+      }
+      return point.predicted_noise;
+    },
+  };
+}
+
+export const PREDICTION_PROVIDERS: readonly PredictionProvider[] = [
+  createLocalProvider(),
+  createHttpProvider(),
+  createFixtureProvider(),
+];
+
+export const DEFAULT_PROVIDER_ID: string =
+  PREDICTION_PROVIDERS.find(p => p.id === import.meta.env.VITE_PREDICTION_PROVIDER)?.id ?? 'local';
+
+export function getPredictionProvider(id: string): PredictionProvider {
+  const provider = PREDICTION_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown prediction provider "${id}"`);
+  }
+  return provider;
+}
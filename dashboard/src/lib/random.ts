@@ -0,0 +1,50 @@
+/**
+ * Seeded pseudo-random numbers for reproducible predictions
+ */
+
+/**
+ * 32-bit FNV-1a hash of the given parts, used to derive independent seeds
+ * (e.g. one stream per station) from a single user-visible seed
+ */
+export function hashSeed(...parts: (string | number)[]): number {
+  const text = parts.join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 generator: returns a function yielding floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generator seeded from a hash of the given parts
+ */
+export function createRng(...parts: (string | number)[]): () => number {
+  return mulberry32(hashSeed(...parts));
+}
+
+// Largest seed a shared link can carry
+export const MAX_SEED = 0xffffffff;
+
+/**
+ * Fresh seed for a new prediction run (0 – 999999, short enough to share)
+ */
+export function generateSeed(): number {
+  const buffer = new Uint32Array(1);
+  crypto.getRandomValues(buffer);
+  return buffer[0] % 1_000_000;
+}
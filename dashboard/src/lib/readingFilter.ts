@@ -0,0 +1,140 @@
+/**
+ * The dashboard-wide filter: date range, stations, zone types and day/night
+ *
+ * With raw readings loaded every part of the filter applies before the tables
+ * are aggregated. The published tables are already aggregated over the whole
+ * period, so for them only stations and zone types filter rows, and day/night
+ * filters the hourly statistics.
+ */
+import { DAY_MS, hourOf } from './dataUtils';
+import { DEFAULT_LIMIT_PROFILE, dayHoursLabel, isNightHourIn, nightHoursLabel, type LimitProfile } from './limitProfiles';
+import type { AnalysisTables } from './groundedSummary';
+import type { ReadingSet } from './readings';
+import { getStation, getStationName, type ZoneType } from './stations';
+
+export const PERIODS = ['all', 'day', 'night'] as const;
+export type Period = typeof PERIODS[number];
+
+/**
+ * Label of a period, with the hours it covers under the limit profile
+ */
+export function periodLabel(period: Period, limits: LimitProfile = DEFAULT_LIMIT_PROFILE): string {
+  if (period === 'day') return `Day (${dayHoursLabel(limits)})`;
+  if (period === 'night') return `Night (${nightHoursLabel(limits)})`;
+  return 'Day and night';
+}
+
+export interface ReadingFilter {
+  /** First and last day included, as YYYY-MM-DD */
+  from?: string;
+  to?: string;
+  /** Station ids to keep; empty keeps every station */
+  stations: string[];
+  /** Zone types to keep; empty keeps every zone */
+  zoneTypes: ZoneType[];
+  period: Period;
+}
+
+export const DEFAULT_READING_FILTER: ReadingFilter = {
+  stations: [],
+  zoneTypes: [],
+  period: 'all',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Wall-clock milliseconds at the start of a YYYY-MM-DD day; undefined if malformed
+ */
+export function parseFilterDate(value: string | undefined): number | undefined {
+  if (!value || !DATE_PATTERN.test(value)) return undefined;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * YYYY-MM-DD of a wall-clock timestamp
+ */
+export const filterDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export const isFilterActive = (filter: ReadingFilter) =>
+  filter.from !== undefined ||
+  filter.to !== undefined ||
+  filter.stations.length > 0 ||
+  filter.zoneTypes.length > 0 ||
+  filter.period !== 'all';
+
+// The date range needs readings with timestamps
+export const hasDateRange = (filter: ReadingFilter) => filter.from !== undefined || filter.to !== undefined;
+
+const formatFilterDate = (value: string) =>
+  new Date(`${value}T00:00:00Z`).toLocaleDateString(undefined, {
+    day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC',
+  });
+
+/**
+ * One line per active part of the filter, e.g. ["1 May 2023 – 31 May 2023", "Residential", "Night (22:00–06:00)"]
+ */
+export function describeReadingFilter(filter: ReadingFilter, limits: LimitProfile = DEFAULT_LIMIT_PROFILE): string[] {
+  const parts: string[] = [];
+  if (filter.from && filter.to) parts.push(`${formatFilterDate(filter.from)} – ${formatFilterDate(filter.to)}`);
+  else if (filter.from) parts.push(`From ${formatFilterDate(filter.from)}`);
+  else if (filter.to) parts.push(`Until ${formatFilterDate(filter.to)}`);
+  if (filter.stations.length > 0) parts.push(filter.stations.map(getStationName).join(', '));
+  if (filter.zoneTypes.length > 0) parts.push(filter.zoneTypes.join(', '));
+  if (filter.period !== 'all') parts.push(periodLabel(filter.period, limits));
+  return parts;
+}
+
+const stationMatches = (filter: ReadingFilter, stationId: string) => {
+  if (filter.stations.length > 0 && !filter.stations.some(id => id.toLowerCase() === stationId.toLowerCase())) {
+    return false;
+  }
+  if (filter.zoneTypes.length === 0) return true;
+  // Stations outside the registry have no zone
+  const zoneType = getStation(stationId)?.zoneType;
+  return zoneType !== undefined && filter.zoneTypes.includes(zoneType);
+};
+
+// Day and night follow the limit profile's hours
+const periodMatches = (period: Period, hour: number, limits: LimitProfile) =>
+  period === 'all' || isNightHourIn(limits, hour) === (period === 'night');
+
+/**
+ * The readings of `order` that pass the filter, in the same order
+ */
+export function filterReadingOrder(
+  readings: ReadingSet,
+  order: Uint32Array,
+  filter: ReadingFilter,
+  limits: LimitProfile = DEFAULT_LIMIT_PROFILE
+): Uint32Array {
+  if (!isFilterActive(filter)) return order;
+  const stationKept = readings.stations.map(id => stationMatches(filter, id));
+  const from = parseFilterDate(filter.from) ?? -Infinity;
+  // The end date is inclusive
+  const to = (parseFilterDate(filter.to) ?? Infinity) + DAY_MS;
+  const { station, time } = readings;
+
+  return order.filter(i =>
+    stationKept[station[i]] && time[i] >= from && time[i] < to && periodMatches(filter.period, hourOf(time[i]), limits)
+  );
+}
+
+/**
+ * Apply the parts of the filter that the published, whole-period tables support
+ */
+export function filterPublishedTables(
+  tables: AnalysisTables,
+  filter: ReadingFilter,
+  limits: LimitProfile = DEFAULT_LIMIT_PROFILE
+): AnalysisTables {
+  if (!isFilterActive(filter)) return tables;
+  const keep = (row: { Location: string }) => stationMatches(filter, row.Location);
+  return {
+    rankings: tables.rankings.filter(keep),
+    exceedance: tables.exceedance.filter(keep),
+    severity: tables.severity.filter(keep),
+    hourly: tables.hourly.filter(row => periodMatches(filter.period, row.Hour, limits)),
+  };
+}
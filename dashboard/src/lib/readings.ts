@@ -0,0 +1,281 @@
+/**
+ * Raw monitoring readings (station, timestamp, LAeq) parsed from CSV or
+ * Parquet into compact columns
+ *
+ * Timestamps are kept as wall-clock time at the station: "2023-05-01 18:00"
+ * is stored as the milliseconds of 2023-05-01T18:00Z, so UTC getters return
+ * the local hour the notebook groups by.
+ */
+import { parquetMetadata, parquetRead } from 'hyparquet';
+import { forEachCSVRecord } from './csv';
+import { getStation } from './stations';
+import type { RowError } from './tableSchemas';
+
+export interface ReadingSet {
+  /** Station ids, indexed by `station` */
+  stations: string[];
+  station: Uint16Array;
+  /** Wall-clock milliseconds, read with UTC getters */
+  time: Float64Array;
+  /** LAeq in dBA; NaN where the source cell was empty or not a number */
+  laeq: Float64Array;
+  length: number;
+}
+
+/** The first problems found in a file; `skipped` counts every dropped row */
+export interface ReadingsFileIssues {
+  errors: RowError[];
+  skipped: number;
+}
+
+type ReadingField = 'station' | 'timestamp' | 'laeq';
+
+// Accepted column headers, compared case-insensitively. The long names are
+// the sound level meter exports the notebook reads.
+const COLUMN_ALIASES: Record<ReadingField, string[]> = {
+  station: ['location', 'station', 'station_id'],
+  timestamp: ['datetime', 'date/time', 'timestamp', 'time'],
+  laeq: ['laeq', 'laeq_dba', '4. laf #1 noise level (avg.)dba'],
+};
+
+const MAX_REPORTED_ERRORS = 50;
+
+/**
+ * Map each reading field to a column index; the station column is optional
+ * when every row belongs to one station
+ */
+export function findReadingColumns(headers: string[]): Partial<Record<ReadingField, number>> {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const columns: Partial<Record<ReadingField, number>> = {};
+  (Object.keys(COLUMN_ALIASES) as ReadingField[]).forEach(field => {
+    const index = normalized.findIndex(h => COLUMN_ALIASES[field].includes(h));
+    if (index >= 0) columns[field] = index;
+  });
+  return columns;
+}
+
+/**
+ * Station id implied by a per-station export's file name, e.g. merged_output_ito.csv → ito
+ */
+export const stationFromFilename = (filename: string) =>
+  filename.replace(/\.[^.]+$/, '').replace(/^merged_output_/, '');
+
+const ISO_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?/;
+const DAY_FIRST_TIMESTAMP = /^(\d{2})[/-](\d{2})[/-](\d{4})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/;
+
+/**
+ * Wall-clock milliseconds for ISO (2023-05-01 18:00:00) or day-first
+ * (01-05-2023 18:00) timestamps; any UTC offset is ignored. NaN if unreadable.
+ */
+export function parseTimestamp(value: string): number {
+  const text = value.trim();
+  const iso = ISO_TIMESTAMP.exec(text);
+  if (iso) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0', frac = ''] = iso;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, Math.round(Number(`0.${frac || '0'}`) * 1000));
+  }
+  const dayFirst = DAY_FIRST_TIMESTAMP.exec(text);
+  if (dayFirst) {
+    const [, d, mo, y, h = '0', mi = '0', s = '0'] = dayFirst;
+    return Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+  }
+  return NaN;
+}
+
+/**
+ * Epoch numbers from Parquet of unknown unit: seconds, milliseconds, microseconds or nanoseconds
+ */
+const epochToMillis = (value: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude > 1e17) return value / 1e6;
+  if (magnitude > 1e14) return value / 1e3;
+  if (magnitude > 1e11) return value;
+  return value * 1000;
+};
+
+const timestampFromValue = (value: unknown): number => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'bigint') return epochToMillis(Number(value));
+  if (typeof value === 'number') return epochToMillis(value);
+  if (typeof value === 'string') return parseTimestamp(value);
+  return NaN;
+};
+
+const levelFromValue = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+/**
+ * Growable columns that readings from several files are appended to.
+ * Registry stations are stored under their registry id, so "ITO" and "ito"
+ * from different files are one station.
+ */
+export function createReadingsBuilder() {
+  let capacity = 1024;
+  let length = 0;
+  let station = new Uint16Array(capacity);
+  let time = new Float64Array(capacity);
+  let laeq = new Float64Array(capacity);
+  const stations: string[] = [];
+  const stationIndex = new Map<string, number>();
+
+  const grow = () => {
+    capacity *= 2;
+    const nextStation = new Uint16Array(capacity);
+    nextStation.set(station);
+    station = nextStation;
+    const nextTime = new Float64Array(capacity);
+    nextTime.set(time);
+    time = nextTime;
+    const nextLaeq = new Float64Array(capacity);
+    nextLaeq.set(laeq);
+    laeq = nextLaeq;
+  };
+
+  return {
+    add(rawStationId: string, timestamp: number, level: number) {
+      if (length === capacity) grow();
+      let index = stationIndex.get(rawStationId);
+      if (index === undefined) {
+        const stationId = getStation(rawStationId)?.id ?? rawStationId;
+        index = stations.indexOf(stationId);
+        if (index < 0) index = stations.push(stationId) - 1;
+        // Remember the spelling as found so later rows skip the registry lookup
+        stationIndex.set(rawStationId, index);
+      }
+      station[length] = index;
+      time[length] = timestamp;
+      laeq[length] = level;
+      length++;
+    },
+    finish(): ReadingSet {
+      return {
+        stations,
+        station: station.slice(0, length),
+        time: time.slice(0, length),
+        laeq: laeq.slice(0, length),
+        length,
+      };
+    },
+  };
+}
+
+export type ReadingsBuilder = ReturnType<typeof createReadingsBuilder>;
+
+function createErrorLog() {
+  const errors: RowError[] = [];
+  let skipped = 0;
+  return {
+    errors,
+    get skipped() { return skipped; },
+    skip(error: RowError) {
+      skipped++;
+      if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+    },
+  };
+}
+
+const missingColumnsError = (columns: Partial<Record<ReadingField, number>>, hasDefaultStation: boolean): string | null => {
+  const missing: ReadingField[] = (['timestamp', 'laeq'] as const).filter(field => columns[field] === undefined);
+  if (columns.station === undefined && !hasDefaultStation) missing.unshift('station');
+  if (missing.length === 0) return null;
+  return `Missing column${missing.length === 1 ? '' : 's'}: ${missing
+    .map(field => COLUMN_ALIASES[field][0])
+    .join(', ')}`;
+};
+
+/**
+ * Append the readings of a CSV file. Rows without a usable station or
+ * timestamp are skipped; empty or non-numeric levels are kept as NaN for
+ * cleaning to drop, as the notebook does.
+ */
+export function readReadingsCSV(
+  text: string,
+  builder: ReadingsBuilder,
+  defaultStation?: string
+): ReadingsFileIssues {
+  const log = createErrorLog();
+  let columns: Partial<Record<ReadingField, number>> = {};
+  let headerRead = false;
+
+  forEachCSVRecord(text, ({ line, fields }) => {
+    if (!headerRead) {
+      columns = findReadingColumns(fields);
+      const missing = missingColumnsError(columns, defaultStation !== undefined);
+      if (missing) throw new Error(missing);
+      headerRead = true;
+      return;
+    }
+
+    const stationId = columns.station !== undefined ? fields[columns.station]?.trim() : defaultStation;
+    const rawTime = fields[columns.timestamp!] ?? '';
+    const timestamp = parseTimestamp(rawTime);
+    if (!stationId) {
+      log.skip({ line, column: 'station', severity: 'warning', message: 'Row has no station' });
+      return;
+    }
+    if (Number.isNaN(timestamp)) {
+      log.skip({ line, column: 'timestamp', value: rawTime, severity: 'warning', message: 'Unreadable timestamp' });
+      return;
+    }
+    builder.add(stationId, timestamp, levelFromValue(fields[columns.laeq!]));
+  });
+
+  if (!headerRead) throw new Error('The file is empty');
+  return { errors: log.errors, skipped: log.skipped };
+}
+
+/**
+ * Append the readings of a Parquet file, reading only the three columns needed
+ */
+export async function readReadingsParquet(
+  buffer: ArrayBuffer,
+  builder: ReadingsBuilder,
+  defaultStation?: string
+): Promise<ReadingsFileIssues> {
+  const metadata = parquetMetadata(buffer);
+  // Top-level column names; nested columns are not readings
+  const names = metadata.schema.slice(1).map(element => element.name);
+  const columns = findReadingColumns(names);
+  const missing = missingColumnsError(columns, defaultStation !== undefined);
+  if (missing) throw new Error(missing);
+
+  const wanted = (['station', 'timestamp', 'laeq'] as const)
+    .filter(field => columns[field] !== undefined)
+    .map(field => [field, names[columns[field]!]] as const);
+  const rowCount = Number(metadata.num_rows);
+  const values: Partial<Record<ReadingField, unknown[]>> = {};
+  wanted.forEach(([field]) => { values[field] = new Array(rowCount); });
+  const fieldByColumn = new Map(wanted.map(([field, name]) => [name, field]));
+
+  await parquetRead({
+    file: buffer,
+    metadata,
+    columns: wanted.map(([, name]) => name),
+    onChunk: ({ columnName, columnData, rowStart }) => {
+      const target = values[fieldByColumn.get(columnName)!]!;
+      for (let i = 0; i < columnData.length; i++) target[rowStart + i] = columnData[i];
+    },
+  });
+
+  const log = createErrorLog();
+  for (let row = 0; row < rowCount; row++) {
+    const stationValue = values.station?.[row];
+    const stationId = stationValue !== undefined && stationValue !== null ? String(stationValue).trim() : defaultStation;
+    const timestamp = timestampFromValue(values.timestamp![row]);
+    // Parquet rows are reported by their 1-based row number
+    if (!stationId) {
+      log.skip({ line: row + 1, column: 'station', severity: 'warning', message: 'Row has no station' });
+      continue;
+    }
+    if (Number.isNaN(timestamp)) {
+      log.skip({ line: row + 1, column: 'timestamp', value: String(values.timestamp![row]), severity: 'warning', message: 'Unreadable timestamp' });
+      continue;
+    }
+    builder.add(stationId, timestamp, levelFromValue(values.laeq![row]));
+  }
+
+  return { errors: log.errors, skipped: log.skipped };
+}
@@ -0,0 +1,148 @@
+/**
+ * Client for the raw-readings worker: parses CSV or Parquet files and
+ * recomputes the analysis tables off the main thread. The worker keeps the
+ * last files' readings and their quality flags, so a new filter only needs
+ * a new aggregation.
+ */
+import type { AcousticTables } from './acoustics';
+import type { DataQualityReport, QualityMode } from './dataQuality';
+import type { AnalysisTables } from './groundedSummary';
+import type { LimitProfile } from './limitProfiles';
+import type { ReadingFilter } from './readingFilter';
+import type { AggregationSummary } from './tableAggregation';
+import type { RowError } from './tableSchemas';
+
+export const READINGS_FILE_TYPES = '.csv,.parquet';
+
+export interface FileIssue {
+  filename: string;
+  error: RowError;
+}
+
+/** What the loaded readings are aggregated with */
+export interface AggregationSettings {
+  filter: ReadingFilter;
+  quality: QualityMode;
+  limits: LimitProfile;
+}
+
+export interface IngestResult {
+  /** Tables for the requested settings */
+  tables: AnalysisTables;
+  /** Tables without the filter, for views that ignore it */
+  unfilteredTables: AnalysisTables;
+  /** Energetic and percentile levels for the requested settings */
+  acoustics: AcousticTables;
+  summary: AggregationSummary;
+  /** Quality of every clean reading, before filtering */
+  quality: Omit<DataQualityReport, 'flags'>;
+  qualityMode: QualityMode;
+  files: string[];
+  /** The first problems per file; whole files that could not be read have an error on line 1 */
+  issues: FileIssue[];
+  /** Rows dropped before cleaning because they had no station or timestamp */
+  skippedRows: number;
+}
+
+export interface IngestProgress {
+  /** 0-based index of the file being read, or the file count while computing */
+  file: number;
+  files: number;
+  filename?: string;
+}
+
+export type IngestRequest =
+  | { type: 'load'; id: number; files: File[]; settings: AggregationSettings }
+  | { type: 'aggregate'; id: number; settings: AggregationSettings };
+
+export type IngestResponse =
+  | { type: 'progress'; id: number; progress: IngestProgress }
+  | { type: 'result'; id: number; result: IngestResult }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingRequest {
+  resolve: (result: IngestResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: IngestProgress) => void;
+}
+
+interface RequestOptions {
+  onProgress?: (progress: IngestProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Requests without their id, which the client assigns
+type IngestCommand =
+  | { type: 'load'; files: File[]; settings: AggregationSettings }
+  | { type: 'aggregate'; settings: AggregationSettings };
+
+/**
+ * A worker-backed loader. Only the latest request reports back; starting a
+ * new one or aborting rejects the previous promise.
+ */
+export function createReadingsIngest() {
+  let worker: Worker | null = null;
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./readingsWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<IngestResponse>) => {
+      const message = event.data;
+      const load = pending.get(message.id);
+      if (!load) return;
+      if (message.type === 'progress') {
+        load.onProgress?.(message.progress);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'result') load.resolve(message.result);
+      else load.reject(new Error(message.message));
+    };
+    worker.onerror = event => {
+      pending.forEach(load => load.reject(new Error(event.message || 'The readings worker failed')));
+      pending.clear();
+    };
+    return worker;
+  };
+
+  const cancelPending = () => {
+    pending.forEach(load => load.reject(new DOMException('Superseded by a newer request', 'AbortError')));
+    pending.clear();
+  };
+
+  const request = (command: IngestCommand, options: RequestOptions) => {
+    cancelPending();
+    const id = nextId++;
+    return new Promise<IngestResult>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new DOMException('Request aborted', 'AbortError'));
+        return;
+      }
+      options.signal?.addEventListener('abort', () => {
+        if (pending.delete(id)) reject(new DOMException('Request aborted', 'AbortError'));
+      });
+      pending.set(id, { resolve, reject, onProgress: options.onProgress });
+      getWorker().postMessage({ ...command, id } satisfies IngestRequest);
+    });
+  };
+
+  return {
+    /** Read files, replacing any readings loaded before, and aggregate them */
+    load(files: File[], settings: AggregationSettings, options: RequestOptions = {}) {
+      return request({ type: 'load', files, settings }, options);
+    },
+    /** Aggregate the loaded readings again with other settings */
+    aggregate(settings: AggregationSettings, options: RequestOptions = {}) {
+      return request({ type: 'aggregate', settings }, options);
+    },
+    dispose() {
+      cancelPending();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+}
+
+export type ReadingsIngest = ReturnType<typeof createReadingsIngest>;
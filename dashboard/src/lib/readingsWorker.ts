@@ -0,0 +1,101 @@
+/**
+ * Web Worker that reads raw readings files and recomputes the analysis tables
+ */
+import { createReadingsBuilder, readReadingsCSV, readReadingsParquet, stationFromFilename, type ReadingSet } from './readings';
+import type { AggregationSettings, FileIssue, IngestRequest, IngestResponse, IngestResult } from './readingsIngest';
+import { assessDataQuality, withoutFlagged, type DataQualityReport } from './dataQuality';
+import type { AnalysisTables } from './groundedSummary';
+import { cleanReadingOrder, computeAnalysisTables, type CleanedReadings } from './tableAggregation';
+
+const post = (message: IngestResponse) => self.postMessage(message);
+
+interface LoadedReadings {
+  readings: ReadingSet;
+  cleaned: CleanedReadings;
+  quality: DataQualityReport;
+  /** Unfiltered tables for the last quality mode and limit profile, computed when first needed */
+  unfiltered?: { key: string; tables: AnalysisTables };
+  details: Pick<IngestResult, 'files' | 'issues' | 'skippedRows'>;
+}
+
+// The last files read, kept so a filter change only re-aggregates
+let loaded: LoadedReadings | null = null;
+
+async function readFiles(id: number, files: File[]): Promise<LoadedReadings> {
+  const builder = createReadingsBuilder();
+  const issues: FileIssue[] = [];
+  let skippedRows = 0;
+
+  for (const [index, file] of files.entries()) {
+    post({ type: 'progress', id, progress: { file: index, files: files.length, filename: file.name } });
+    // A file without a station column holds one station, named by the file
+    const defaultStation = stationFromFilename(file.name);
+    try {
+      const result = file.name.toLowerCase().endsWith('.parquet')
+        ? await readReadingsParquet(await file.arrayBuffer(), builder, defaultStation)
+        : readReadingsCSV(await file.text(), builder, defaultStation);
+      skippedRows += result.skipped;
+      issues.push(...result.errors.map(error => ({ filename: file.name, error })));
+    } catch (err) {
+      issues.push({
+        filename: file.name,
+        error: { line: 1, severity: 'error', message: err instanceof Error ? err.message : String(err) },
+      });
+    }
+  }
+
+  post({ type: 'progress', id, progress: { file: files.length, files: files.length } });
+  const readings = builder.finish();
+  if (readings.length === 0) {
+    const [first] = issues;
+    throw new Error(first ? `${first.filename}: ${first.error.message}` : 'No readings found in the selected files');
+  }
+
+  const cleaned = cleanReadingOrder(readings);
+  return {
+    readings,
+    cleaned,
+    quality: assessDataQuality(readings, cleaned.order),
+    details: { files: files.map(f => f.name), issues, skippedRows },
+  };
+}
+
+function aggregate({ filter, quality: mode, limits }: AggregationSettings): IngestResult {
+  if (!loaded) throw new Error('No readings have been loaded');
+  const { readings, quality } = loaded;
+  // Flagged readings are dropped before aggregation unless they are only reported
+  const cleaned = mode === 'exclude'
+    ? { ...loaded.cleaned, order: withoutFlagged(loaded.cleaned.order, quality.flags) }
+    : loaded.cleaned;
+  const { tables, acoustics, summary } = computeAnalysisTables(readings, filter, limits, cleaned);
+  // Only the latest settings are kept; a custom profile changes on every edit
+  const unfilteredKey = `${mode}|${JSON.stringify(limits)}`;
+  if (loaded.unfiltered?.key !== unfilteredKey) {
+    loaded.unfiltered = {
+      key: unfilteredKey,
+      tables: computeAnalysisTables(readings, undefined, limits, cleaned).tables,
+    };
+  }
+  const unfilteredTables = loaded.unfiltered.tables;
+
+  return {
+    tables,
+    unfilteredTables,
+    acoustics,
+    summary,
+    quality: { flagged: quality.flagged, stations: quality.stations },
+    qualityMode: mode,
+    ...loaded.details,
+  };
+}
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+  const request = event.data;
+  try {
+    // A load that fails keeps the previous readings, which are still on screen
+    if (request.type === 'load') loaded = await readFiles(request.id, request.files);
+    post({ type: 'result', id: request.id, result: aggregate(request.settings) });
+  } catch (err) {
+    post({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
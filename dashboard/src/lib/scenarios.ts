@@ -0,0 +1,105 @@
+/**
+ * Named prediction scenarios, kept in IndexedDB, and their per-station comparison
+ */
+import { DAY_NAMES, formatHour } from './dataUtils';
+import { openDatabase, promisify, STORES, transactionDone } from './localDatabase';
+import type { MapDataPoint } from './predictionModel';
+import type { PredictionShareState } from './viewState';
+
+const STORE = STORES.scenarios;
+
+// Maps shown side by side at most
+export const MAX_COMPARED_SCENARIOS = 4;
+
+export interface PredictionScenario {
+  id: string;
+  name: string;
+  /** Parameters of the run, including the provider */
+  params: PredictionShareState;
+  points: MapDataPoint[];
+  /** Milliseconds since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Default name for a run, e.g. "Friday 18:00, seed 42"
+ */
+export const defaultScenarioName = (params: PredictionShareState) =>
+  `${DAY_NAMES[params.dayOfWeek]} ${formatHour(params.hour)}, seed ${params.seed}`;
+
+/**
+ * All saved scenarios, oldest first
+ */
+export async function listScenarios(): Promise<PredictionScenario[]> {
+  const db = await openDatabase();
+  const scenarios = await promisify(db.transaction(STORE).objectStore(STORE).getAll() as IDBRequest<PredictionScenario[]>);
+  return scenarios.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Build a scenario without storing it
+ */
+export function createScenario(name: string, params: PredictionShareState, points: MapDataPoint[]): PredictionScenario {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || defaultScenarioName(params),
+    params,
+    points,
+    createdAt: Date.now(),
+  };
+}
+
+export async function saveScenario(scenario: PredictionScenario): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(scenario);
+  await transactionDone(tx);
+}
+
+export async function deleteScenario(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export interface ScenarioCell {
+  noise: number;
+  isViolation: boolean;
+  /** Difference from the reference scenario (dB); undefined for the reference itself */
+  deltaDb?: number;
+  /** True when the violation status differs from the reference */
+  statusChanged: boolean;
+}
+
+export interface ScenarioComparisonRow {
+  location: string;
+  /** One cell per scenario, in order; undefined where a scenario has no prediction for the station */
+  cells: (ScenarioCell | undefined)[];
+}
+
+/**
+ * Per-station levels and violation status across scenarios, relative to the first one
+ */
+export function compareScenarios(scenarios: PredictionScenario[]): ScenarioComparisonRow[] {
+  const byLocation = scenarios.map(s => new Map(s.points.map(p => [p.location, p])));
+  const locations = [...new Set(scenarios.flatMap(s => s.points.map(p => p.location)))];
+
+  return locations.map(location => {
+    const reference = byLocation[0]?.get(location);
+    return {
+      location,
+      cells: byLocation.map((points, index) => {
+        const point = points.get(location);
+        if (!point) return undefined;
+        const compared = index > 0 && reference;
+        return {
+          noise: point.predicted_noise,
+          isViolation: point.is_violation,
+          deltaDb: compared ? parseFloat((point.predicted_noise - reference.predicted_noise).toFixed(2)) : undefined,
+          statusChanged: compared ? point.is_violation !== reference.is_violation : false,
+        };
+      }),
+    };
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Server-sent events reader for streaming LLM responses
+ */
+
+/**
+ * Yield the data payload of each event in a text/event-stream response body.
+ * Multi-line data fields are joined with newlines, as the SSE spec requires.
+ * Aborting the request's signal rejects the pending read with an AbortError.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const parseEvent = (block: string): string | undefined => {
+    const data = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''));
+    return data.length > 0 ? data.join('\n') : undefined;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const data = parseEvent(block);
+        if (data !== undefined) yield data;
+      }
+    }
+    const data = parseEvent(buffer);
+    if (data !== undefined) yield data;
+  } finally {
+    // Also stops the download when the consumer returns early
+    await reader.cancel().catch(() => undefined);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Per-station view combining the rankings, exceedance and severity tables
+ */
+import type { StationAcoustics } from './acoustics';
+import type { ExceedanceSummary, StationRanking, ViolationSeverity } from './dataUtils';
+import { getStation, getStationName, type Station } from './stations';
+
+export interface StationProfile {
+  stationId: string;
+  name: string;
+  station?: Station;
+  ranking?: StationRanking;
+  /** 1-based position in the rankings, loudest first */
+  rank?: number;
+  rankedCount: number;
+  exceedance?: ExceedanceSummary;
+  severity?: ViolationSeverity;
+  /** Energetic and percentile levels, only known from raw readings */
+  acoustics?: StationAcoustics;
+}
+
+// Location that PolicyModal builds its prompt from
+export interface PolicyLocation {
+  name: string;
+  zoneType: string;
+  violationRate: number;
+  avgNoise: number;
+  limit: number;
+}
+
+const sameStation = (stationId: string) => (row: { Location: string }) =>
+  row.Location.toLowerCase() === stationId.toLowerCase();
+
+/**
+ * Collect everything the tables say about one station
+ */
+export function buildStationProfile(
+  stationId: string,
+  tables: {
+    rankings: StationRanking[];
+    exceedance: ExceedanceSummary[];
+    severity: ViolationSeverity[];
+    acoustics?: StationAcoustics[];
+  }
+): StationProfile {
+  const ranked = [...tables.rankings].sort((a, b) => b.Average_LAeq_dBA - a.Average_LAeq_dBA);
+  const rankIndex = ranked.findIndex(sameStation(stationId));
+
+  return {
+    stationId,
+    name: getStationName(stationId),
+    station: getStation(stationId),
+    ranking: rankIndex >= 0 ? ranked[rankIndex] : undefined,
+    rank: rankIndex >= 0 ? rankIndex + 1 : undefined,
+    rankedCount: ranked.length,
+    exceedance: tables.exceedance.find(sameStation(stationId)),
+    severity: tables.severity.find(sameStation(stationId)),
+    acoustics: tables.acoustics?.find(sameStation(stationId)),
+  };
+}
+
+/**
+ * Policy prompt context for a station, or null when the tables lack the figures it needs
+ */
+export function toPolicyLocation(profile: StationProfile): PolicyLocation | null {
+  const { ranking, exceedance, station } = profile;
+  if (!ranking || !exceedance) return null;
+
+  return {
+    name: profile.name,
+    zoneType: exceedance.Zone_Type || station?.zoneType || ranking.Zone_Type,
+    violationRate: parseFloat(exceedance.Exceedance_Percentage.toFixed(1)),
+    avgNoise: parseFloat(ranking.Average_LAeq_dBA.toFixed(1)),
+    limit: exceedance.Day_Limit_dBA,
+  };
+}
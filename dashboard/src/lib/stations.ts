@@ -0,0 +1,140 @@
+/**
+ * Monitoring station registry
+ *
+ * Station metadata (display name, coordinates, zone type, CPCB limits and the
+ * base noise used by the prediction heuristic) lives in src/data/stations.json.
+ * The limits are the ones the published tables were computed with; tables
+ * recomputed from readings and predictions take theirs from the selected
+ * limit profile (limitProfiles.ts).
+ * The ML backend reads the same file, so components should always resolve
+ * stations through this module rather than keeping their own copies.
+ */
+import registry from '../data/stations.json';
+import {
+  EXCEEDANCE_SUMMARY_SCHEMA,
+  STATION_RANKINGS_SCHEMA,
+  VIOLATION_SEVERITY_SCHEMA,
+  ZONE_TYPES,
+} from './tableSchemas';
+import type { ExceedanceSummary, StationRanking, ViolationSeverity } from './dataUtils';
+
+export type ZoneType = typeof ZONE_TYPES[number];
+
+export interface Station {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  zoneType: ZoneType;
+  limits: { day: number; night: number };
+  baseNoise: number;
+}
+
+export interface StationMismatch {
+  stationId: string;
+  table: string;
+  field?: string;
+  registryValue?: string | number;
+  tableValue?: string | number;
+  message: string;
+}
+
+function loadRegistry(): Station[] {
+  return registry.stations.map(station => {
+    if (!(ZONE_TYPES as readonly string[]).includes(station.zoneType)) {
+      throw new Error(`Station registry: "${station.id}" has unknown zone type "${station.zoneType}"`);
+    }
+    return station as Station;
+  });
+}
+
+export const STATIONS: readonly Station[] = loadRegistry();
+
+const stationsById = new Map(STATIONS.map(s => [s.id.toLowerCase(), s]));
+
+/**
+ * Look up a station by id (case-insensitive)
+ */
+export function getStation(id: string): Station | undefined {
+  return stationsById.get(id.toLowerCase());
+}
+
+/**
+ * Display name for a station id, falling back to the id itself
+ */
+export function getStationName(id: string): string {
+  return getStation(id)?.name ?? id;
+}
+
+/**
+ * Zone types that have at least one station in the registry
+ */
+export function getRegistryZoneTypes(): ZoneType[] {
+  return ZONE_TYPES.filter(zone => STATIONS.some(s => s.zoneType === zone));
+}
+
+/**
+ * Compare the registry against the analysis tables and report every
+ * station, zone type or limit that disagrees.
+ */
+export function checkStationConsistency(tables: {
+  rankings: StationRanking[];
+  exceedance: ExceedanceSummary[];
+  severity: ViolationSeverity[];
+}): StationMismatch[] {
+  const mismatches: StationMismatch[] = [];
+
+  const checkRows = (
+    table: string,
+    rows: { Location: string; Zone_Type: string; Day_Limit_dBA?: number; Night_Limit_dBA?: number }[]
+  ) => {
+    if (rows.length === 0) return;
+
+    for (const row of rows) {
+      const station = getStation(row.Location);
+      if (!station) {
+        mismatches.push({
+          stationId: row.Location,
+          table,
+          message: `Station "${row.Location}" is not in the registry`,
+        });
+        continue;
+      }
+
+      const fields: [string, string | number, string | number | undefined][] = [
+        ['Zone_Type', station.zoneType, row.Zone_Type],
+        ['Day_Limit_dBA', station.limits.day, row.Day_Limit_dBA],
+        ['Night_Limit_dBA', station.limits.night, row.Night_Limit_dBA],
+      ];
+      for (const [field, registryValue, tableValue] of fields) {
+        if (tableValue !== undefined && tableValue !== registryValue) {
+          mismatches.push({
+            stationId: station.id,
+            table,
+            field,
+            registryValue,
+            tableValue,
+            message: `${station.id}: ${field} is "${tableValue}" in ${table} but "${registryValue}" in the registry`,
+          });
+        }
+      }
+    }
+
+    const present = new Set(rows.map(r => r.Location.toLowerCase()));
+    for (const station of STATIONS) {
+      if (!present.has(station.id.toLowerCase())) {
+        mismatches.push({
+          stationId: station.id,
+          table,
+          message: `Registry station "${station.id}" is missing from ${table}`,
+        });
+      }
+    }
+  };
+
+  checkRows(STATION_RANKINGS_SCHEMA.title, tables.rankings);
+  checkRows(EXCEEDANCE_SUMMARY_SCHEMA.title, tables.exceedance);
+  checkRows(VIOLATION_SEVERITY_SCHEMA.title, tables.severity);
+
+  return mismatches;
+}
@@ -0,0 +1,248 @@
+/**
+ * Recompute the four analysis tables from raw readings
+ *
+ * Follows the notebook (cells 3 and 13): zero and missing levels are dropped,
+ * then exact duplicates; a reading exceeds its limit when LAeq is strictly
+ * above it. Limits and the day/night hours come from the limit profile, CPCB
+ * 2000 as in the notebook unless another is chosen; readings in an exemption
+ * window count towards the totals but never exceed. Station tables only include registry stations,
+ * while the hourly statistics use every clean reading, as in the notebook
+ * where unmapped stations have no zone but still count towards each hour.
+ * Energetic and percentile levels are computed alongside, for the same readings.
+ */
+import type { AnalysisTables } from './groundedSummary';
+import { levelStatistics, periodLevels, type AcousticTables, type StationAcoustics } from './acoustics';
+import type { ExceedanceSummary, HourlyStatistics, StationRanking, ViolationSeverity } from './dataUtils';
+import { hourOf } from './dataUtils';
+import { DEFAULT_LIMIT_PROFILE, readingLimitAt, type LimitProfile } from './limitProfiles';
+import { getStation } from './stations';
+import type { SEVERITY_CATEGORIES } from './tableSchemas';
+import type { ReadingSet } from './readings';
+import { DEFAULT_READING_FILTER, filterReadingOrder, type ReadingFilter } from './readingFilter';
+
+export interface AggregationSummary {
+  /** Readings in the input */
+  readings: number;
+  /** Readings the tables were computed from, after cleaning and filtering */
+  used: number;
+  missingOrZero: number;
+  duplicates: number;
+  /** Clean readings outside the filter */
+  filteredOut: number;
+  /** Station ids not in the registry: left out of the station tables */
+  unregisteredStations: string[];
+  /** Wall-clock milliseconds of the first and last clean reading, before filtering */
+  firstReading?: number;
+  lastReading?: number;
+}
+
+// Upper bounds (dB) of the Low, Moderate, High and Severe bands below; Extreme is above the last
+export const SEVERITY_EXCESS_BREAKS = [5, 10, 15, 20];
+
+/**
+ * The notebook's severity bands for the average excess over the limit
+ */
+export function severityCategory(avgExcess: number): typeof SEVERITY_CATEGORIES[number] {
+  if (avgExcess > 20) return 'Extreme';
+  if (avgExcess > 15) return 'Severe';
+  if (avgExcess > 10) return 'High';
+  if (avgExcess > 5) return 'Moderate';
+  return 'Low';
+}
+
+// pandas groupby order: plain code point comparison, so upper case sorts first
+const byCodePoint = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+export interface CleanedReadings {
+  /** Indices of the clean readings, ordered by station then time */
+  order: Uint32Array;
+  missingOrZero: number;
+  duplicates: number;
+}
+
+/**
+ * Drop missing and zero levels, then exact duplicates
+ */
+export function cleanReadingOrder(readings: ReadingSet): CleanedReadings {
+  const { station, time, laeq, length } = readings;
+  const candidates: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (Number.isFinite(laeq[i]) && laeq[i] !== 0) candidates.push(i);
+  }
+  candidates.sort((a, b) => station[a] - station[b] || time[a] - time[b] || laeq[a] - laeq[b]);
+
+  const kept: number[] = [];
+  for (const i of candidates) {
+    const prev = kept[kept.length - 1];
+    if (prev !== undefined && station[prev] === station[i] && time[prev] === time[i] && laeq[prev] === laeq[i]) continue;
+    kept.push(i);
+  }
+
+  return {
+    order: Uint32Array.from(kept),
+    missingOrZero: length - candidates.length,
+    duplicates: candidates.length - kept.length,
+  };
+}
+
+const median = (sorted: Float64Array) => {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+interface StationAccumulator {
+  sum: number;
+  count: number;
+  exceedances: number;
+  excessSum: number;
+  excessMax: number;
+}
+
+/**
+ * Station rankings, exceedance summary, hourly statistics and violation
+ * severity from the readings that pass the filter, against the limit
+ * profile. Pass `cleaned` to reuse the cleaning of an earlier call on the
+ * same readings.
+ */
+export function computeAnalysisTables(
+  readings: ReadingSet,
+  filter: ReadingFilter = DEFAULT_READING_FILTER,
+  limits: LimitProfile = DEFAULT_LIMIT_PROFILE,
+  cleaned: CleanedReadings = cleanReadingOrder(readings)
+): { tables: AnalysisTables; acoustics: AcousticTables; summary: AggregationSummary } {
+  const { station, time, laeq } = readings;
+  const order = filterReadingOrder(readings, cleaned.order, filter, limits);
+
+  const registry = readings.stations.map(id => getStation(id));
+  const accumulators: StationAccumulator[] = readings.stations.map(() => ({
+    sum: 0, count: 0, exceedances: 0, excessSum: 0, excessMax: -Infinity,
+  }));
+  const hourCounts = new Array<number>(24).fill(0);
+  let firstReading = Infinity;
+  let lastReading = -Infinity;
+  for (const i of cleaned.order) {
+    if (time[i] < firstReading) firstReading = time[i];
+    if (time[i] > lastReading) lastReading = time[i];
+  }
+
+  for (const i of order) {
+    hourCounts[hourOf(time[i])]++;
+
+    const registered = registry[station[i]];
+    if (!registered) continue;
+    const acc = accumulators[station[i]];
+    acc.sum += laeq[i];
+    acc.count++;
+    const limit = readingLimitAt(limits, registered.zoneType, time[i]);
+    if (limit !== undefined && laeq[i] > limit) {
+      const excess = laeq[i] - limit;
+      acc.exceedances++;
+      acc.excessSum += excess;
+      if (excess > acc.excessMax) acc.excessMax = excess;
+    }
+  }
+
+  // Collect each hour's levels for the median
+  const hourValues = hourCounts.map(count => new Float64Array(count));
+  const hourFill = new Array<number>(24).fill(0);
+  for (const i of order) {
+    const hour = hourOf(time[i]);
+    hourValues[hour][hourFill[hour]++] = laeq[i];
+  }
+
+  // Station runs are contiguous in the order, as in the cleaning
+  const stationAcoustics: StationAcoustics[] = [];
+  for (let start = 0; start < order.length;) {
+    const stationIndex = station[order[start]];
+    let end = start + 1;
+    while (end < order.length && station[order[end]] === stationIndex) end++;
+    const registered = registry[stationIndex];
+    if (registered) {
+      const run = order.subarray(start, end);
+      const levels = Float64Array.from(run, i => laeq[i]);
+      const hours = Uint8Array.from(run, i => hourOf(time[i]));
+      stationAcoustics.push({
+        Location: registered.id,
+        ...periodLevels(levels, hours, limits),
+        ...levelStatistics(levels.sort()),
+      });
+    }
+    start = end;
+  }
+
+  const hourly: HourlyStatistics[] = hourValues.flatMap((values, hour) => {
+    if (values.length === 0) return [];
+    values.sort();
+    let sum = 0;
+    for (const v of values) sum += v;
+    return [{
+      Hour: hour,
+      Average_LAeq_dBA: sum / values.length,
+      Median_LAeq_dBA: median(values),
+      Max_LAeq_dBA: values[values.length - 1],
+      Min_LAeq_dBA: values[0],
+    }];
+  });
+
+  const stationRows = readings.stations
+    .map((_, index) => ({ station: registry[index], acc: accumulators[index] }))
+    .filter((row): row is { station: NonNullable<typeof row.station>; acc: StationAccumulator } =>
+      row.station !== undefined && row.acc.count > 0
+    )
+    .sort((a, b) => byCodePoint(a.station.id, b.station.id));
+
+  const rankings: StationRanking[] = stationRows
+    .map(({ station: s, acc }) => ({
+      Location: s.id,
+      Average_LAeq_dBA: acc.sum / acc.count,
+      Zone_Type: s.zoneType,
+      Day_Limit_dBA: limits.zones[s.zoneType].day,
+      Night_Limit_dBA: limits.zones[s.zoneType].night,
+    }))
+    .sort((a, b) => b.Average_LAeq_dBA - a.Average_LAeq_dBA);
+
+  const exceedance: ExceedanceSummary[] = stationRows.map(({ station: s, acc }) => ({
+    Location: s.id,
+    Zone_Type: s.zoneType,
+    Day_Limit_dBA: limits.zones[s.zoneType].day,
+    Night_Limit_dBA: limits.zones[s.zoneType].night,
+    Exceedance_Count: acc.exceedances,
+    Total_Count: acc.count,
+    Exceedance_Percentage: (acc.exceedances / acc.count) * 100,
+  }));
+
+  // Stations that never exceeded their limit have no severity row
+  const severity: ViolationSeverity[] = stationRows
+    .filter(({ acc }) => acc.exceedances > 0)
+    .map(({ station: s, acc }) => {
+      const avgExcess = acc.excessSum / acc.exceedances;
+      return {
+        Location: s.id,
+        Zone_Type: s.zoneType,
+        Avg_Excess_dBA: avgExcess,
+        Max_Excess_dBA: acc.excessMax,
+        Severity_Category: severityCategory(avgExcess),
+      };
+    });
+
+  const acoustics: AcousticTables = {
+    stations: stationAcoustics,
+    hourly: hourValues.flatMap((values, hour) => values.length > 0 ? [{ Hour: hour, ...levelStatistics(values) }] : []),
+  };
+
+  const clean = cleaned.order.length;
+  return {
+    tables: { rankings, exceedance, severity, hourly },
+    acoustics,
+    summary: {
+      readings: readings.length,
+      used: order.length,
+      missingOrZero: cleaned.missingOrZero,
+      duplicates: cleaned.duplicates,
+      filteredOut: clean - order.length,
+      unregisteredStations: readings.stations.filter((_, index) => !registry[index]),
+      firstReading: clean > 0 ? firstReading : undefined,
+      lastReading: clean > 0 ? lastReading : undefined,
+    },
+  };
+}
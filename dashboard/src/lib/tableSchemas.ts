@@ -0,0 +1,242 @@
+/**
+ * Schema definitions for the analysis tables exported by the notebook.
+ *
+ * These are the single source of truth for column names, types, units and
+ * allowed values. The browser (fetchCSV) and the CLI validator
+ * (validate-csv.js) both validate against them.
+ */
+import { parseCSVRecords } from './csv';
+import type {
+  ExceedanceSummary,
+  HourlyStatistics,
+  StationRanking,
+  ViolationSeverity,
+} from './dataUtils';
+
+export const ZONE_TYPES = ['Industrial', 'Commercial', 'Residential', 'Silence'] as const;
+export const SEVERITY_CATEGORIES = ['Extreme', 'Severe', 'High', 'Moderate', 'Low'] as const;
+
+interface BaseColumn {
+  /** Human readable description, shown by the validator */
+  description?: string;
+  /** Empty cells are rejected unless the column is optional */
+  optional?: boolean;
+}
+
+export interface NumberColumn extends BaseColumn {
+  type: 'number' | 'integer';
+  unit?: string;
+  min?: number;
+  max?: number;
+}
+
+export interface StringColumn extends BaseColumn {
+  type: 'string';
+  enum?: readonly string[];
+}
+
+export type ColumnSchema = NumberColumn | StringColumn;
+
+export interface TableSchema<T> {
+  filename: string;
+  title: string;
+  /** One entry per field of T, in file order */
+  columns: { [K in keyof T]-?: T[K] extends number ? NumberColumn : StringColumn };
+}
+
+export interface RowError {
+  /** 1-based line number in the CSV file */
+  line: number;
+  column?: string;
+  value?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TableResult<T> {
+  rows: T[];
+  errors: RowError[];
+}
+
+export const STATION_RANKINGS_SCHEMA: TableSchema<StationRanking> = {
+  filename: '01_station_rankings.csv',
+  title: 'Station Rankings',
+  columns: {
+    Location: { type: 'string' },
+    Average_LAeq_dBA: { type: 'number', unit: 'dBA', min: 0, max: 200 },
+    Zone_Type: { type: 'string', enum: ZONE_TYPES },
+    Day_Limit_dBA: { type: 'number', unit: 'dBA', min: 0, max: 200 },
+    Night_Limit_dBA: { type: 'number', unit: 'dBA', min: 0, max: 200 },
+  },
+};
+
+export const EXCEEDANCE_SUMMARY_SCHEMA: TableSchema<ExceedanceSummary> = {
+  filename: '02_exceedance_summary.csv',
+  title: 'Exceedance Summary',
+  columns: {
+    Location: { type: 'string' },
+    Zone_Type: { type: 'string', enum: ZONE_TYPES },
+    Day_Limit_dBA: { type: 'number', unit: 'dBA', min: 0, max: 200 },
+    Night_Limit_dBA: { type: 'number', unit: 'dBA', min: 0, max: 200 },
+    Exceedance_Count: { type: 'integer', min: 0 },
+    Total_Count: { type: 'integer', min: 0 },
+    Exceedance_Percentage: { type: 'number', unit: '%', min: 0, max: 100 },
+  },
+};
+
+export const HOURLY_STATISTICS_SCHEMA: TableSchema<HourlyStatistics> = {
+  filename: '03_hourly_statistics.csv',
+  title: 'Hourly Statistics',
+  columns: {
+    Hour: { type: 'integer', min: 0, max: 23 },
+    Average_LAeq_dBA: { type: 'number', unit: 'dBA' },
+    Median_LAeq_dBA: { type: 'number', unit: 'dBA' },
+    Max_LAeq_dBA: { type: 'number', unit: 'dBA' },
+    Min_LAeq_dBA: { type: 'number', unit: 'dBA' },
+  },
+};
+
+export const VIOLATION_SEVERITY_SCHEMA: TableSchema<ViolationSeverity> = {
+  filename: '04_violation_severity.csv',
+  title: 'Violation Severity',
+  columns: {
+    Location: { type: 'string' },
+    Zone_Type: { type: 'string', enum: ZONE_TYPES },
+    Avg_Excess_dBA: { type: 'number', unit: 'dBA', min: 0 },
+    Max_Excess_dBA: { type: 'number', unit: 'dBA', min: 0 },
+    Severity_Category: { type: 'string', enum: SEVERITY_CATEGORIES },
+  },
+};
+
+export const TABLE_SCHEMAS = [
+  STATION_RANKINGS_SCHEMA,
+  EXCEEDANCE_SUMMARY_SCHEMA,
+  HOURLY_STATISTICS_SCHEMA,
+  VIOLATION_SEVERITY_SCHEMA,
+] as const;
+
+/**
+ * Convert a single raw cell according to its column schema.
+ * Returns the typed value or an error message.
+ */
+function convertCell(raw: string, column: ColumnSchema): { value?: string | number; error?: string } {
+  if (column.type === 'string') {
+    if (column.enum && !column.enum.includes(raw)) {
+      return { error: `expected one of ${column.enum.join(', ')}` };
+    }
+    return { value: raw };
+  }
+
+  const num = Number(raw);
+  if (!Number.isFinite(num)) {
+    return { error: 'expected a number' };
+  }
+  if (column.type === 'integer' && !Number.isInteger(num)) {
+    return { error: 'expected an integer' };
+  }
+  if (column.min !== undefined && num < column.min) {
+    return { error: `below minimum ${column.min}${column.unit ? ` ${column.unit}` : ''}` };
+  }
+  if (column.max !== undefined && num > column.max) {
+    return { error: `above maximum ${column.max}${column.unit ? ` ${column.unit}` : ''}` };
+  }
+  return { value: num };
+}
+
+/**
+ * Parse CSV text and validate every row against a table schema.
+ * Rows with errors are dropped from `rows`; everything found is reported in `errors`.
+ */
+export function parseTable<T>(csvText: string, schema: TableSchema<T>): TableResult<T> {
+  const errors: RowError[] = [];
+
+  let records;
+  try {
+    records = parseCSVRecords(csvText);
+  } catch (err) {
+    return {
+      rows: [],
+      errors: [{ line: 1, severity: 'error', message: err instanceof Error ? err.message : String(err) }],
+    };
+  }
+
+  if (records.length < 2) {
+    errors.push({ line: 1, severity: 'error', message: `No data rows found (file has ${records.length} records)` });
+    return { rows: [], errors };
+  }
+
+  const [headerRecord, ...dataRecords] = records;
+  const headers = headerRecord.fields.map(h => h.trim());
+  const columns = Object.entries(schema.columns) as [string, ColumnSchema][];
+
+  const missing = columns.filter(([name]) => !headers.includes(name)).map(([name]) => name);
+  if (missing.length > 0) {
+    errors.push({
+      line: headerRecord.line,
+      severity: 'error',
+      message: `Missing required columns: ${missing.join(', ')}`,
+    });
+    return { rows: [], errors };
+  }
+
+  const expected = new Set(columns.map(([name]) => name));
+  const extra = headers.filter(h => !expected.has(h));
+  if (extra.length > 0) {
+    errors.push({
+      line: headerRecord.line,
+      severity: 'warning',
+      message: `Extra columns (will be ignored): ${extra.join(', ')}`,
+    });
+  }
+
+  const rows: T[] = [];
+
+  for (const record of dataRecords) {
+    if (record.fields.length !== headers.length) {
+      errors.push({
+        line: record.line,
+        severity: 'error',
+        message: `Expected ${headers.length} columns, got ${record.fields.length}`,
+      });
+      continue;
+    }
+
+    const row: Record<string, string | number> = {};
+    let rowValid = true;
+
+    for (const [name, column] of columns) {
+      const raw = record.fields[headers.indexOf(name)].trim();
+
+      if (raw === '') {
+        if (!column.optional) {
+          errors.push({ line: record.line, column: name, severity: 'error', message: 'Empty value' });
+          rowValid = false;
+        }
+        continue;
+      }
+
+      const { value, error } = convertCell(raw, column);
+      if (error !== undefined) {
+        errors.push({ line: record.line, column: name, value: raw, severity: 'error', message: error });
+        rowValid = false;
+      } else if (value !== undefined) {
+        row[name] = value;
+      }
+    }
+
+    if (rowValid) {
+      rows.push(row as T);
+    }
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Format a row error for logs and the CLI validator
+ */
+export function formatRowError(error: RowError): string {
+  const where = error.column ? `Line ${error.line}, "${error.column}"` : `Line ${error.line}`;
+  const value = error.value !== undefined ? ` (got "${error.value}")` : '';
+  return `${where}: ${error.message}${value}`;
+}
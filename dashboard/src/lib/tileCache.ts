@@ -0,0 +1,18 @@
+/**
+ * Registration of the tile-caching service worker (public/tile-sw.js)
+ *
+ * The worker keeps every map tile the browser has fetched, so areas that were
+ * viewed once stay available without a network connection.
+ */
+
+const WORKER_URL = `${import.meta.env.BASE_URL}tile-sw.js`;
+
+export function registerTileCache(): void {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(WORKER_URL, { scope: import.meta.env.BASE_URL })
+      .catch(err => console.warn('Tile cache service worker could not be registered:', err));
+  });
+}
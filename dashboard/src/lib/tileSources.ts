@@ -0,0 +1,64 @@
+/**
+ * Basemap tile sources for the Leaflet maps
+ *
+ * A custom XYZ template can be supplied with VITE_MAP_TILE_URL (and
+ * VITE_MAP_TILE_ATTRIBUTION); VITE_MAP_TILE_SOURCE picks the default source.
+ * The 'outline' source uses no tiles at all, only the bundled district outline.
+ */
+
+export interface TileSource {
+  id: string;
+  label: string;
+  /** XYZ URL template, or null for the bundled outline only */
+  url: string | null;
+  attribution: string;
+  maxZoom: number;
+}
+
+const OSM_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const BUILT_IN_SOURCES: TileSource[] = [
+  {
+    id: 'osm',
+    label: 'OpenStreetMap',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: OSM_ATTRIBUTION,
+    maxZoom: 19,
+  },
+  {
+    id: 'carto-light',
+    label: 'CARTO Light',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    attribution: `${OSM_ATTRIBUTION} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    maxZoom: 20,
+  },
+  {
+    id: 'outline',
+    label: 'District outline (offline)',
+    url: null,
+    attribution: 'Simplified NCT Delhi district outline',
+    maxZoom: 19,
+  },
+];
+
+const customUrl = import.meta.env.VITE_MAP_TILE_URL;
+
+export const TILE_SOURCES: readonly TileSource[] = customUrl
+  ? [
+      {
+        id: 'custom',
+        label: 'Custom tiles',
+        url: customUrl,
+        attribution: import.meta.env.VITE_MAP_TILE_ATTRIBUTION || '',
+        maxZoom: 19,
+      },
+      ...BUILT_IN_SOURCES,
+    ]
+  : BUILT_IN_SOURCES;
+
+export const DEFAULT_TILE_SOURCE_ID: string =
+  TILE_SOURCES.find(s => s.id === import.meta.env.VITE_MAP_TILE_SOURCE)?.id ?? TILE_SOURCES[0].id;
+
+export function getTileSource(id: string): TileSource {
+  return TILE_SOURCES.find(s => s.id === id) ?? TILE_SOURCES[0];
+}
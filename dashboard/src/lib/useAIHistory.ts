@@ -0,0 +1,89 @@
+/**
+ * React state for the stored versions of one AI output subject
+ */
+import { useCallback, useEffect, useState } from 'react';
+import {
+  createAIHistoryEntry,
+  deleteAIHistoryEntry,
+  listAIHistory,
+  saveAIHistoryEntry,
+  setAIHistoryStar,
+  type AIHistoryEntry,
+  type AIOutputKind,
+  type NewAIHistoryEntry,
+} from './aiHistory';
+
+const describeError = (err: unknown) =>
+  `History is not being saved: ${err instanceof Error ? err.message : String(err)}`;
+
+/**
+ * Versions for `subject`, newest first. When storage fails, new versions are
+ * still kept for the session and `error` explains why they won't persist.
+ */
+export function useAIHistory(kind: AIOutputKind, subject: string | null) {
+  const [entries, setEntries] = useState<AIHistoryEntry[]>([]);
+  const [loadedSubject, setLoadedSubject] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (subject === null) return;
+    let cancelled = false;
+    listAIHistory(kind, subject)
+      .then(stored => {
+        if (!cancelled) setEntries(stored);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setEntries([]);
+        setError(describeError(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedSubject(subject);
+      });
+    return () => { cancelled = true; };
+  }, [kind, subject]);
+
+  const add = useCallback(async (entry: NewAIHistoryEntry): Promise<AIHistoryEntry> => {
+    const created = createAIHistoryEntry(entry);
+    setEntries(prev => [created, ...prev]);
+    try {
+      await saveAIHistoryEntry(created);
+    } catch (err) {
+      setError(describeError(err));
+    }
+    return created;
+  }, []);
+
+  const toggleStar = useCallback(async (entry: AIHistoryEntry) => {
+    const starred = !entry.starred;
+    setEntries(prev => prev.map(e => ({ ...e, starred: starred && e.id === entry.id })));
+    try {
+      await setAIHistoryStar(entry, starred);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  }, []);
+
+  const remove = useCallback(async (entry: AIHistoryEntry) => {
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+    try {
+      await deleteAIHistoryEntry(entry.id);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  }, []);
+
+  const loaded = subject !== null && loadedSubject === subject;
+  const current = loaded ? entries : [];
+
+  return {
+    entries: current,
+    /** True once the stored versions for the current subject have been read */
+    loaded,
+    starred: current.find(e => e.starred),
+    error,
+    add,
+    toggleStar,
+    remove,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * React state for raw readings loaded into the readings worker
+ */
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  createReadingsIngest,
+  type AggregationSettings,
+  type IngestProgress,
+  type IngestResult,
+  type ReadingsIngest,
+} from './readingsIngest';
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+/**
+ * Tables computed from loaded readings with the current filter and quality
+ * mode, re-aggregated whenever they change. `result` is null until files are loaded.
+ */
+export function useRawReadings(settings: AggregationSettings) {
+  const ingestRef = useRef<ReadingsIngest | null>(null);
+  // Settings of the last request, so a load and a settings change don't both aggregate
+  const requestedSettingsRef = useRef<string | null>(null);
+  const [result, setResult] = useState<IngestResult | null>(null);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => () => ingestRef.current?.dispose(), []);
+
+  const run = useCallback(async (request: (ingest: ReadingsIngest) => Promise<IngestResult>) => {
+    ingestRef.current ??= createReadingsIngest();
+    setError('');
+    try {
+      setResult(await request(ingestRef.current));
+      setProgress(null);
+    } catch (err) {
+      // A newer request has taken over, progress included
+      if (isAbort(err)) return;
+      setError(err instanceof Error ? err.message : String(err));
+      setProgress(null);
+    }
+  }, []);
+
+  const load = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    requestedSettingsRef.current = JSON.stringify(settings);
+    setProgress({ file: 0, files: files.length, filename: files[0].name });
+    return run(ingest => ingest.load(files, settings, { onProgress: setProgress }));
+  }, [settings, run]);
+
+  const reset = useCallback(() => {
+    ingestRef.current?.dispose();
+    ingestRef.current = null;
+    requestedSettingsRef.current = null;
+    setResult(null);
+    setProgress(null);
+    setError('');
+  }, []);
+
+  const loaded = result !== null;
+  useEffect(() => {
+    const key = JSON.stringify(settings);
+    if (!loaded || requestedSettingsRef.current === key) return;
+    requestedSettingsRef.current = key;
+    setProgress({ file: 0, files: 0 });
+    run(ingest => ingest.aggregate(settings));
+  }, [settings, loaded, run]);
+
+  return { result, progress, error, load, reset };
+}
@@ -0,0 +1,50 @@
+/**
+ * React state for the saved prediction scenarios
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { deleteScenario, listScenarios, saveScenario, type PredictionScenario } from './scenarios';
+
+const describeError = (err: unknown) =>
+  `Scenarios are not being saved: ${err instanceof Error ? err.message : String(err)}`;
+
+/**
+ * Saved scenarios, oldest first. When storage fails, new scenarios are still
+ * kept for the session and `error` explains why they won't persist.
+ */
+export function useScenarios() {
+  const [scenarios, setScenarios] = useState<PredictionScenario[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    listScenarios()
+      .then(stored => {
+        // Keep anything saved before the stored list arrived
+        if (!cancelled) setScenarios(prev => [...stored, ...prev.filter(s => !stored.some(x => x.id === s.id))]);
+      })
+      .catch(err => {
+        if (!cancelled) setError(describeError(err));
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const add = useCallback(async (scenario: PredictionScenario) => {
+    setScenarios(prev => [...prev, scenario]);
+    try {
+      await saveScenario(scenario);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  }, []);
+
+  const remove = useCallback(async (scenario: PredictionScenario) => {
+    setScenarios(prev => prev.filter(s => s.id !== scenario.id));
+    try {
+      await deleteScenario(scenario.id);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  }, []);
+
+  return { scenarios, error, add, remove };
+}
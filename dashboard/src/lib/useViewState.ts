@@ -0,0 +1,13 @@
+/**
+ * React binding for the URL-backed view state
+ */
+import { useSyncExternalStore } from 'react';
+import { getViewState, subscribeViewState, updateViewState } from './viewState';
+
+/**
+ * Current view state, re-rendering on every change including Back/Forward
+ */
+export function useViewState() {
+  const state = useSyncExternalStore(subscribeViewState, getViewState);
+  return [state, updateViewState] as const;
+}
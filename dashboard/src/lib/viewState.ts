@@ -0,0 +1,286 @@
+/**
+ * Dashboard view state kept in the page URL
+ *
+ * The tab is the path under the Vite base (e.g. /Delhi-NCR-Noise-Pollution-Analysis/prediction)
+ * and everything else is a query parameter, so any view can be bookmarked,
+ * reloaded or sent as a link. Values at their default are left out of the URL.
+ */
+import { NOISE_LAG_OPTIONS, type PredictionParams } from './predictionModel';
+import type { TableKey } from './groundedSummary';
+import { parseFilterDate, PERIODS, type ReadingFilter } from './readingFilter';
+import type { QualityMode } from './dataQuality';
+import { MAX_SEED } from './random';
+import {
+  CUSTOM_PROFILE_ID,
+  DEFAULT_LIMIT_PROFILE,
+  decodeCustomProfile,
+  encodeCustomProfile,
+  getLimitProfile,
+  type LimitProfile,
+} from './limitProfiles';
+import { ZONE_TYPES } from './tableSchemas';
+
+export const TABS = ['analysis', 'prediction'] as const;
+export type Tab = typeof TABS[number];
+
+// Path segment of each tab under the base path
+const TAB_PATHS: Record<Tab, string> = {
+  analysis: '',
+  prediction: 'prediction',
+};
+
+export const SURFACE_MODES = ['off', 'raster', 'hexbin'] as const;
+export type SurfaceSetting = typeof SURFACE_MODES[number];
+
+export interface TableSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+/** Parameters of a prediction run, including the provider that made it */
+export interface PredictionShareState extends PredictionParams {
+  provider: string;
+}
+
+export interface ViewState {
+  tab: Tab;
+  /** Station whose detail panel is open */
+  station?: string;
+  /** Station whose policy suggestions dialog is open */
+  policy?: string;
+  aiProvider?: string;
+  hourlyView: 'chart' | 'table';
+  sorts: Partial<Record<TableKey, TableSort>>;
+  /** Dashboard-wide filter for the tables, charts and key metrics */
+  filter: ReadingFilter;
+  /** Whether readings failing the quality checks are excluded or only flagged */
+  qualityMode: QualityMode;
+  /** Limit profile that exceedance, severity and violations are judged against */
+  limits: LimitProfile;
+  /** Last prediction run; missing fields fall back to the control defaults */
+  prediction: Partial<PredictionShareState>;
+  mapOpen: boolean;
+  basemap?: string;
+  surface: SurfaceSetting;
+  surfaceSource: 'predictions' | 'historical';
+}
+
+const TABLE_KEYS: TableKey[] = ['rankings', 'exceedance', 'severity', 'hourly'];
+
+const KEYS = {
+  station: 'station',
+  policy: 'policy',
+  aiProvider: 'ai',
+  hourlyView: 'hourly',
+  sort: (table: TableKey) => `sort-${table}`,
+  from: 'from',
+  to: 'to',
+  stations: 'stations',
+  zones: 'zones',
+  period: 'period',
+  qualityMode: 'quality',
+  limits: 'limits',
+  customLimits: 'limits-custom',
+  hour: 'hour',
+  dayOfWeek: 'day',
+  noiseLag: 'lag',
+  seed: 'seed',
+  provider: 'provider',
+  mapOpen: 'map',
+  basemap: 'basemap',
+  surface: 'surface',
+  surfaceSource: 'surface-source',
+} as const;
+
+// Query parameter the GitHub Pages 404 page uses to hand over a deep-link path
+const REDIRECT_KEY = 'path';
+
+const BASE = import.meta.env.BASE_URL || '/';
+
+const readInt = (params: URLSearchParams, key: string, min: number, max: number): number | undefined => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+};
+
+// Only the levels the controls offer, so a restored run can be shown
+const readNoiseLag = (params: URLSearchParams): number | undefined => {
+  const value = readInt(params, KEYS.noiseLag, 0, 200);
+  return NOISE_LAG_OPTIONS.some(option => option.value === value) ? value : undefined;
+};
+
+const readString = (params: URLSearchParams, key: string): string | undefined =>
+  params.get(key)?.trim() || undefined;
+
+const readSort = (params: URLSearchParams, table: TableKey): TableSort | undefined => {
+  const [column, direction] = (params.get(KEYS.sort(table)) ?? '').split(':');
+  if (!column) return undefined;
+  return { column, direction: direction === 'asc' ? 'asc' : 'desc' };
+};
+
+const readList = (params: URLSearchParams, key: string): string[] =>
+  (params.get(key) ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+const readDate = (params: URLSearchParams, key: string): string | undefined => {
+  const value = readString(params, key);
+  return parseFilterDate(value) !== undefined ? value : undefined;
+};
+
+// A built-in profile by id, or the custom one with its limits
+const readLimits = (params: URLSearchParams): LimitProfile => {
+  const id = params.get(KEYS.limits);
+  if (id === CUSTOM_PROFILE_ID) {
+    return decodeCustomProfile(params.get(KEYS.customLimits) ?? '') ?? DEFAULT_LIMIT_PROFILE;
+  }
+  return (id && getLimitProfile(id)) || DEFAULT_LIMIT_PROFILE;
+};
+
+const tabFromPath = (pathname: string, base: string): Tab => {
+  const rest = pathname.startsWith(base) ? pathname.slice(base.length) : pathname.replace(/^\//, '');
+  const segment = rest.split('/')[0];
+  return TABS.find(tab => TAB_PATHS[tab] === segment) ?? 'analysis';
+};
+
+/**
+ * Parse the view state from a URL; invalid values fall back to their defaults
+ */
+export function readViewState(href: string = window.location.href, base: string = BASE): ViewState {
+  const url = new URL(href);
+  const params = url.searchParams;
+  const prediction: Partial<PredictionShareState> = {
+    hour: readInt(params, KEYS.hour, 0, 23),
+    dayOfWeek: readInt(params, KEYS.dayOfWeek, 0, 6),
+    noiseLag: readNoiseLag(params),
+    seed: readInt(params, KEYS.seed, 0, MAX_SEED),
+    provider: readString(params, KEYS.provider),
+  };
+  const surface = params.get(KEYS.surface);
+  const period = params.get(KEYS.period);
+
+  return {
+    tab: tabFromPath(url.pathname, base),
+    station: readString(params, KEYS.station),
+    policy: readString(params, KEYS.policy),
+    aiProvider: readString(params, KEYS.aiProvider),
+    hourlyView: params.get(KEYS.hourlyView) === 'table' ? 'table' : 'chart',
+    sorts: Object.fromEntries(
+      TABLE_KEYS.flatMap(table => {
+        const sort = readSort(params, table);
+        return sort ? [[table, sort]] : [];
+      })
+    ),
+    filter: {
+      from: readDate(params, KEYS.from),
+      to: readDate(params, KEYS.to),
+      stations: readList(params, KEYS.stations),
+      zoneTypes: ZONE_TYPES.filter(zone => readList(params, KEYS.zones).includes(zone)),
+      period: PERIODS.find(p => p === period) ?? 'all',
+    },
+    qualityMode: params.get(KEYS.qualityMode) === 'flag' ? 'flag' : 'exclude',
+    limits: readLimits(params),
+    prediction: Object.fromEntries(Object.entries(prediction).filter(([, v]) => v !== undefined)),
+    mapOpen: params.get(KEYS.mapOpen) === '1',
+    basemap: readString(params, KEYS.basemap),
+    surface: SURFACE_MODES.find(mode => mode === surface) ?? 'off',
+    surfaceSource: params.get(KEYS.surfaceSource) === 'historical' ? 'historical' : 'predictions',
+  };
+}
+
+/**
+ * Path and query string (relative to the origin) that encode a view state
+ */
+export function viewStateUrl(state: ViewState, base: string = BASE): string {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  };
+
+  set(KEYS.station, state.station);
+  set(KEYS.policy, state.policy);
+  set(KEYS.aiProvider, state.aiProvider);
+  if (state.hourlyView === 'table') set(KEYS.hourlyView, 'table');
+  TABLE_KEYS.forEach(table => {
+    const sort = state.sorts[table];
+    if (sort) set(KEYS.sort(table), `${sort.column}:${sort.direction}`);
+  });
+  set(KEYS.from, state.filter.from);
+  set(KEYS.to, state.filter.to);
+  set(KEYS.stations, state.filter.stations.join(','));
+  set(KEYS.zones, state.filter.zoneTypes.join(','));
+  if (state.filter.period !== 'all') set(KEYS.period, state.filter.period);
+  if (state.qualityMode !== 'exclude') set(KEYS.qualityMode, state.qualityMode);
+  if (state.limits.id !== DEFAULT_LIMIT_PROFILE.id) set(KEYS.limits, state.limits.id);
+  if (state.limits.id === CUSTOM_PROFILE_ID) set(KEYS.customLimits, encodeCustomProfile(state.limits));
+  set(KEYS.hour, state.prediction.hour);
+  set(KEYS.dayOfWeek, state.prediction.dayOfWeek);
+  set(KEYS.noiseLag, state.prediction.noiseLag);
+  set(KEYS.seed, state.prediction.seed);
+  set(KEYS.provider, state.prediction.provider);
+  if (state.mapOpen) set(KEYS.mapOpen, '1');
+  set(KEYS.basemap, state.basemap);
+  if (state.surface !== 'off') set(KEYS.surface, state.surface);
+  if (state.surfaceSource !== 'predictions') set(KEYS.surfaceSource, state.surfaceSource);
+
+  const query = params.toString();
+  return `${base}${TAB_PATHS[state.tab]}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Turn a URL rewritten by public/404.html (the deep-link path moved into a
+ * query parameter) back into the original URL
+ */
+export function restoreRedirectedUrl(href: string, base: string = BASE): string | null {
+  const url = new URL(href);
+  const path = url.searchParams.get(REDIRECT_KEY);
+  if (path === null) return null;
+  url.searchParams.delete(REDIRECT_KEY);
+  return `${base}${path.replace(/^\//, '')}${url.search}${url.hash}`;
+}
+
+// The single source of truth for the running page, kept in step with the history stack
+let current: ViewState | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+function ensureLoaded(): ViewState {
+  if (!current) {
+    const restored = restoreRedirectedUrl(window.location.href);
+    if (restored) window.history.replaceState(null, '', restored);
+    current = readViewState();
+  }
+  return current;
+}
+
+export function getViewState(): ViewState {
+  return ensureLoaded();
+}
+
+export function subscribeViewState(listener: () => void): () => void {
+  if (listeners.size === 0) window.addEventListener('popstate', handlePopState);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('popstate', handlePopState);
+  };
+}
+
+function handlePopState() {
+  current = readViewState();
+  notify();
+}
+
+/**
+ * Merge a change into the view state and the URL. Pushed changes (tabs and
+ * dialogs) get their own history entry so Back undoes them; the rest replace it.
+ */
+export function updateViewState(change: Partial<ViewState>, { push = false }: { push?: boolean } = {}) {
+  const next = { ...ensureLoaded(), ...change };
+  const url = viewStateUrl(next);
+  current = next;
+  if (url !== `${window.location.pathname}${window.location.search}`) {
+    window.history[push ? 'pushState' : 'replaceState'](null, '', url);
+  }
+  notify();
+}
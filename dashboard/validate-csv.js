@@ -2,17 +2,23 @@
 /**
  * CSV Validation Script for Noise Pollution Dashboard
  * 
- * Validates that CSV files have:
+ * Validates every table in public/data/Tables against the schemas in
+ * src/lib/tableSchemas.ts (the same definitions the dashboard uses at runtime):
  * - Correct column headers
  * - No missing data
- * - Proper formatting
- * - Valid severity categories
+ * - Numeric columns, units and ranges
+ * - Allowed enum values (Zone_Type, Severity_Category)
+ * - Consistency with the station registry (src/data/stations.json)
  * 
  * Usage: node validate-csv.js
  */
 
-const fs = require('fs');
-const path = require('path');
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 const COLORS = {
   reset: '\x1b[0m',
@@ -26,7 +32,23 @@ function log(color, message) {
   console.log(`${COLORS[color]}${message}${COLORS.reset}`);
 }
 
-function validateCSV(filename, requiredColumns, options = {}) {
+// Load the TypeScript schema module through Vite so nothing is duplicated here
+const vite = await createServer({
+  root: __dirname,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+const { TABLE_SCHEMAS, parseTable, formatRowError } = await vite.ssrLoadModule('/src/lib/tableSchemas.ts');
+const { checkStationConsistency } = await vite.ssrLoadModule('/src/lib/stations.ts');
+await vite.close();
+
+const parsedTables = {};
+
+function validateCSV(schema) {
+  const { filename } = schema;
   const filepath = path.join(__dirname, 'public', 'data', 'Tables', filename);
   
   // Check file exists
@@ -36,112 +58,34 @@ function validateCSV(filename, requiredColumns, options = {}) {
     return false;
   }
 
+  log('blue', `\n📄 Validating ${filename} (${schema.title})...`);
+  console.log(`   Expected columns: ${Object.keys(schema.columns).join(', ')}`);
+
   const content = fs.readFileSync(filepath, 'utf8');
-  const lines = content.trim().split('\n');
-  
-  log('blue', `\n📄 Validating ${filename}...`);
-  
-  // Check minimum lines
-  if (lines.length < 2) {
-    log('red', `❌ ${filename}: No data rows found (file has ${lines.length} lines)`);
-    return false;
-  }
-  
-  // Parse headers
-  const headers = lines[0].split(',').map(h => h.trim());
-  console.log(`   Headers found: ${headers.join(', ')}`);
-  
-  // Check required columns
-  const missing = requiredColumns.filter(col => !headers.includes(col));
-  if (missing.length > 0) {
-    log('red', `❌ Missing required columns: ${missing.join(', ')}`);
-    log('yellow', `   Required: ${requiredColumns.join(', ')}`);
-    return false;
-  }
-  
-  // Check for extra columns
-  const extra = headers.filter(h => !requiredColumns.includes(h));
-  if (extra.length > 0) {
-    log('yellow', `⚠️  Extra columns (will be ignored): ${extra.join(', ')}`);
-  }
-  
-  let validRows = 0;
-  let errors = 0;
-  let warnings = 0;
-  
-  // Validate data rows
-  for (let i = 1; i < lines.length; i++) {
-    const lineNum = i + 1;
-    const line = lines[i].trim();
-    
-    // Skip empty lines
-    if (!line) {
-      log('yellow', `⚠️  Line ${lineNum}: Empty line (will be skipped)`);
-      warnings++;
-      continue;
-    }
-    
-    const values = line.split(',').map(v => v.trim());
-    
-    // Check column count
-    if (values.length !== headers.length) {
-      log('red', `❌ Line ${lineNum}: Expected ${headers.length} columns, got ${values.length}`);
-      log('yellow', `   Data: ${line.substring(0, 100)}${line.length > 100 ? '...' : ''}`);
-      errors++;
-      continue;
-    }
-    
-    // Check for empty values
-    const emptyIndices = values.map((v, idx) => v === '' ? idx : -1).filter(idx => idx !== -1);
-    if (emptyIndices.length > 0) {
-      const emptyColumns = emptyIndices.map(idx => headers[idx]);
-      log('yellow', `⚠️  Line ${lineNum}: Empty values in columns: ${emptyColumns.join(', ')}`);
-      warnings++;
-    }
-    
-    // Validate numeric columns
-    if (options.numericColumns) {
-      options.numericColumns.forEach(colName => {
-        const idx = headers.indexOf(colName);
-        if (idx !== -1 && values[idx] !== '') {
-          const num = Number(values[idx]);
-          if (isNaN(num)) {
-            log('red', `❌ Line ${lineNum}: "${colName}" should be numeric, got "${values[idx]}"`);
-            errors++;
-          }
-        }
-      });
-    }
-    
-    // Validate severity category
-    if (options.validateSeverity) {
-      const idx = headers.indexOf('Severity_Category');
-      if (idx !== -1 && values[idx]) {
-        const validCategories = ['Extreme', 'Severe', 'High', 'Moderate', 'Low'];
-        if (!validCategories.includes(values[idx])) {
-          log('red', `❌ Line ${lineNum}: Invalid Severity_Category "${values[idx]}"`);
-          log('yellow', `   Valid options: ${validCategories.join(', ')}`);
-          errors++;
-        }
-      }
-    }
-    
-    validRows++;
-  }
-  
+  const { rows, errors } = parseTable(content, schema);
+  parsedTables[filename] = rows;
+
+  const errorCount = errors.filter(e => e.severity === 'error').length;
+  const warningCount = errors.length - errorCount;
+
+  errors.forEach(error => {
+    const icon = error.severity === 'error' ? '❌' : '⚠️ ';
+    log(error.severity === 'error' ? 'red' : 'yellow', `${icon} ${formatRowError(error)}`);
+  });
+
   // Summary
-  console.log(`   Data rows: ${validRows}`);
-  if (errors > 0) {
-    log('red', `❌ ${errors} error(s) found`);
+  console.log(`   Valid data rows: ${rows.length}`);
+  if (errorCount > 0) {
+    log('red', `❌ ${errorCount} error(s) found`);
   }
-  if (warnings > 0) {
-    log('yellow', `⚠️  ${warnings} warning(s) found`);
+  if (warningCount > 0) {
+    log('yellow', `⚠️  ${warningCount} warning(s) found`);
   }
-  if (errors === 0 && warnings === 0) {
-    log('green', `✅ All ${validRows} rows are valid!`);
+  if (errors.length === 0) {
+    log('green', `✅ All ${rows.length} rows are valid!`);
   }
   
-  return errors === 0;
+  return errorCount === 0;
 }
 
 // Main validation
@@ -150,32 +94,20 @@ console.log('============================');
 
 let allValid = true;
 
-// Validate station rankings
-allValid &= validateCSV('01_station_rankings.csv', 
-  ['Location', 'Average_LAeq_dBA', 'Zone_Type', 'Day_Limit_dBA', 'Night_Limit_dBA'],
-  {
-    numericColumns: ['Average_LAeq_dBA', 'Day_Limit_dBA', 'Night_Limit_dBA']
-  }
-);
-
-// Validate exceedance summary
-allValid &= validateCSV('02_exceedance_summary.csv', 
-  ['Location', 'Zone_Type', 'Day_Limit_dBA', 'Night_Limit_dBA', 
-   'Exceedance_Count', 'Total_Count', 'Exceedance_Percentage'],
-  {
-    numericColumns: ['Day_Limit_dBA', 'Night_Limit_dBA', 'Exceedance_Count', 
-                     'Total_Count', 'Exceedance_Percentage']
-  }
-);
-
-// Validate violation severity
-allValid &= validateCSV('04_violation_severity.csv', 
-  ['Location', 'Zone_Type', 'Avg_Excess_dBA', 'Max_Excess_dBA', 'Severity_Category'],
-  {
-    numericColumns: ['Avg_Excess_dBA', 'Max_Excess_dBA'],
-    validateSeverity: true
-  }
-);
+for (const schema of TABLE_SCHEMAS) {
+  allValid = validateCSV(schema) && allValid;
+}
+
+// Cross-check the tables against the station registry
+log('blue', '\n🗺️  Checking station registry consistency...');
+const [rankings, exceedance, , severity] = TABLE_SCHEMAS.map(schema => parsedTables[schema.filename] ?? []);
+const mismatches = checkStationConsistency({ rankings, exceedance, severity });
+if (mismatches.length > 0) {
+  mismatches.forEach(m => log('red', `❌ ${m.message}`));
+  allValid = false;
+} else {
+  log('green', '✅ Registry and tables agree');
+}
 
 // Final result
 console.log('\n============================');
@@ -188,7 +120,7 @@ if (allValid) {
   log('yellow', '\nTips:');
   log('yellow', '  - Remove trailing commas');
   log('yellow', '  - Fill empty numeric cells with 0 or remove the row');
-  log('yellow', '  - Use only valid Severity_Category values: Extreme, Severe, High, Moderate, Low');
+  log('yellow', '  - Use only the Zone_Type and Severity_Category values listed in src/lib/tableSchemas.ts');
   log('yellow', '  - Ensure numeric columns contain only numbers');
   process.exit(1);
 }